@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import { type GameRules, type TableSettings } from './types.js';
 
 dotenv.config();
 
@@ -14,10 +15,122 @@ export const CONFIG = {
 
   // Game Settings
   GAME: {
-    DEFAULT_LEVERAGE: parseInt(process.env.DEFAULT_LEVERAGE || '500', 10),
+    DEFAULT_LEVERAGE: parseInt(process.env.DEFAULT_LEVERAGE || '500', 10), // Used when a player doesn't pick a tier
+    LEVERAGE_TIERS: (process.env.LEVERAGE_TIERS || '50,100,250,500')
+      .split(',')
+      .map((tier) => parseInt(tier.trim(), 10)),
     LOBBY_DURATION_SECONDS: parseInt(process.env.LOBBY_DURATION_SECONDS || '20', 10),
     MIN_ROUND_DURATION_SECONDS: parseInt(process.env.MIN_ROUND_DURATION_SECONDS || '10', 10),  // ← Changed to 10
     MAX_ROUND_DURATION_SECONDS: parseInt(process.env.MAX_ROUND_DURATION_SECONDS || '120', 10), // ← Changed to 120
+    ROUND_TYPE: process.env.ROUND_TYPE || 'classic',
+  },
+
+  // Lobby rules; tables may override them with lobbyRules
+  LOBBY: {
+    MIN_PLAYERS: parseInt(process.env.LOBBY_MIN_PLAYERS || '1', 10),
+    MAX_PLAYERS: parseInt(process.env.LOBBY_MAX_PLAYERS || '100', 10),
+    REQUIRE_BOTH_SIDES: process.env.LOBBY_REQUIRE_BOTH_SIDES === 'true',
+    LATE_JOIN_WINDOW_SECONDS: parseInt(process.env.LOBBY_LATE_JOIN_WINDOW_SECONDS || '3', 10),
+    EXTENSION_SECONDS: parseInt(process.env.LOBBY_EXTENSION_SECONDS || '5', 10),
+    MAX_EXTENSIONS: parseInt(process.env.LOBBY_MAX_EXTENSIONS || '3', 10),
+  },
+
+  // Player sessions (signed tokens). Without SESSION_SECRET a random one is
+  // used, so sessions don't survive a restart.
+  AUTH: {
+    SESSION_SECRET: process.env.SESSION_SECRET || '',
+    ACCESS_TOKEN_TTL_SECONDS: parseInt(process.env.ACCESS_TOKEN_TTL_SECONDS || '900', 10),
+    REFRESH_TOKEN_TTL_SECONDS: parseInt(process.env.REFRESH_TOKEN_TTL_SECONDS || '604800', 10),
+    MAX_USERNAME_LENGTH: 24,
+    WALLET_NONCE_TTL_SECONDS: parseInt(process.env.WALLET_NONCE_TTL_SECONDS || '300', 10),
+    MAX_PENDING_WALLET_NONCES: 10000,
+    CLAIM_TOKEN_TTL_SECONDS: parseInt(process.env.CLAIM_TOKEN_TTL_SECONDS || '86400', 10),
+  },
+
+  // WebSocket limits
+  WS: {
+    MAX_PAYLOAD_BYTES: parseInt(process.env.WS_MAX_PAYLOAD_BYTES || '4096', 10), // Larger frames close the socket
+    HEARTBEAT_INTERVAL_MS: parseInt(process.env.WS_HEARTBEAT_INTERVAL_MS || '15000', 10),
+    MAX_MISSED_PONGS: parseInt(process.env.WS_MAX_MISSED_PONGS || '2', 10), // Then the socket is terminated
+    DISCONNECT_GRACE_SECONDS: parseInt(process.env.WS_DISCONNECT_GRACE_SECONDS || '20', 10), // Before leaving the lobby
+  },
+
+  // Public round stream for clients following a table
+  SPECTATOR: {
+    STREAM_INTERVAL_MS: parseInt(process.env.SPECTATOR_STREAM_INTERVAL_MS || '1000', 10),
+  },
+
+  // Per-connection token buckets (burst capacity, refill per second)
+  RATE_LIMIT: {
+    MESSAGES: { capacity: 30, refillPerSecond: 10 }, // Every frame
+    PER_TYPE: {
+      SHOOT: { capacity: 5, refillPerSecond: 2 },
+      SET_ORDERS: { capacity: 5, refillPerSecond: 2 },
+      JOIN_LOBBY: { capacity: 3, refillPerSecond: 0.5 },
+      UPDATE_BET: { capacity: 5, refillPerSecond: 1 },
+      AUTH: { capacity: 5, refillPerSecond: 0.2 },
+      REFRESH: { capacity: 5, refillPerSecond: 0.2 },
+      WALLET_NONCE: { capacity: 5, refillPerSecond: 0.2 },
+      WALLET_AUTH: { capacity: 5, refillPerSecond: 0.2 },
+      CREATE_ROOM: { capacity: 2, refillPerSecond: 0.1 },
+    } as Record<string, { capacity: number; refillPerSecond: number }>,
+    // Invalid or rate-limited messages; running out disconnects the socket
+    STRIKES: { capacity: 20, refillPerSecond: 1 },
+  },
+
+  // Admin API: ADMIN_TOKENS="alice:token1,bob:token2"
+  ADMIN: {
+    TOKENS: Object.fromEntries(
+      (process.env.ADMIN_TOKENS || '')
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.includes(':'))
+        .map((entry) => {
+          const separator = entry.indexOf(':');
+          return [entry.slice(separator + 1), entry.slice(0, separator)];
+        })
+    ) as Record<string, string>, // token -> admin name
+  },
+
+  // Round Types (rule presets a game can run with)
+  ROUND_TYPES: {
+    classic: {
+      directionMode: 'random', // Server splits players 50/50 LONG/SHORT
+      settlementMode: 'fixed', // Each position paid against price by the house
+    },
+    pick_side: {
+      directionMode: 'choice', // Players pick LONG or SHORT when joining
+      settlementMode: 'fixed',
+    },
+    pool: {
+      directionMode: 'random',
+      settlementMode: 'pool', // Winners split the losers' stakes
+    },
+    pick_side_pool: {
+      directionMode: 'choice',
+      settlementMode: 'pool',
+    },
+  } as Record<string, GameRules>,
+
+  // Game tables, each running its own lobby; TABLES may replace these with a
+  // JSON array. Unset limits fall back to GAME, PLAYER and RISK.
+  TABLES: (process.env.TABLES
+    ? JSON.parse(process.env.TABLES)
+    : [
+        { id: 'main', name: 'Main' },
+        { id: 'high_stakes', name: 'High stakes 500X', leverageTiers: [500], minBet: 10 },
+        { id: 'casual', name: 'Casual 50X', leverageTiers: [50], maxBet: 25 },
+        { id: 'btc', name: 'BTC only', pairs: ['BTC/USD'] },
+      ]) as TableSettings[],
+
+  // Private rooms (player-created tables joined by invite code)
+  ROOMS: {
+    MAX_ROOMS: parseInt(process.env.MAX_ROOMS || '100', 10),
+    MAX_ROOMS_PER_OWNER: parseInt(process.env.MAX_ROOMS_PER_OWNER || '1', 10),
+    MIN_LOBBY_SECONDS: 5,
+    MAX_LOBBY_SECONDS: 300,
+    IDLE_CLOSE_SECONDS: parseInt(process.env.ROOM_IDLE_CLOSE_SECONDS || '120', 10), // Empty lobby for this long closes the room
+    INVITE_CODE_LENGTH: 6,
   },
 
   // Player Settings
@@ -26,6 +139,70 @@ export const CONFIG = {
     MIN_BET_AMOUNT: parseFloat(process.env.MIN_BET_AMOUNT || '0.01'),
   },
 
+  // House risk limits (exposure = stake × leverage)
+  RISK: {
+    MAX_BET_AMOUNT: parseFloat(process.env.MAX_BET_AMOUNT || '1000'),
+    MAX_BET_BALANCE_RATIO: parseFloat(process.env.MAX_BET_BALANCE_RATIO || '1'), // Of the player's balance
+    MAX_ROUND_EXPOSURE: parseFloat(process.env.MAX_ROUND_EXPOSURE || '5000000'),
+    MAX_NET_EXPOSURE: parseFloat(process.env.MAX_NET_EXPOSURE || '1000000'), // |LONG - SHORT| exposure
+  },
+
+  // Fees (rates; 0 disables a fee)
+  FEES: {
+    ENTRY_FEE_RATE: parseFloat(process.env.ENTRY_FEE_RATE || '0'), // Of the bet, charged on top at round start
+    PROFIT_RAKE_RATE: parseFloat(process.env.PROFIT_RAKE_RATE || '0'), // Of positive P&L, taken from the payout
+    HOLDING_FEE_RATE_PER_SECOND: parseFloat(process.env.HOLDING_FEE_RATE_PER_SECOND || '0'), // Of the closed stake, per second held
+  },
+
+  // Pair Settings
+  PAIRS: {
+    // Decimals prices are rounded to (capped at the schema's 8)
+    PRICE_DECIMALS: {
+      'BTC/USD': 2,
+      'ETH/USD': 2,
+      'SOL/USD': 4,
+      'BNB/USD': 4,
+      'AVAX/USD': 4,
+      'LINK/USD': 5,
+      'XRP/USD': 6,
+      'DOGE/USD': 6,
+      'PEPE/USD': 8,
+      'SHIB/USD': 8,
+      ...JSON.parse(process.env.PAIR_PRICE_DECIMALS || '{}'),
+    } as Record<string, number>,
+    DEFAULT_PRICE_DECIMALS: parseInt(process.env.DEFAULT_PRICE_DECIMALS || '8', 10),
+    // Highest leverage allowed per pair (thin, jumpy books get less)
+    MAX_LEVERAGE: {
+      'DOGE/USD': 250,
+      'PEPE/USD': 100,
+      'SHIB/USD': 100,
+      ...JSON.parse(process.env.PAIR_MAX_LEVERAGE || '{}'),
+    } as Record<string, number>,
+    DEFAULT_MAX_LEVERAGE: parseInt(process.env.DEFAULT_MAX_LEVERAGE || '500', 10),
+  },
+
+  // Price Staleness (a round with a stale price is voided and refunded)
+  PRICE_GUARD: {
+    MAX_TICK_GAP_SECONDS: parseInt(process.env.MAX_TICK_GAP_SECONDS || '10', 10),
+    MAX_PUBLISH_AGE_SECONDS: parseInt(process.env.MAX_PUBLISH_AGE_SECONDS || '30', 10),
+  },
+
+  // Tick Filtering (bad prints never reach the game)
+  TICK_FILTER: {
+    APPLY_EXPO: process.env.PRICE_FEED_APPLY_EXPO === 'true', // Feed sends raw mantissas that need 10^expo
+    MAX_CONFIDENCE_RATIO: parseFloat(process.env.MAX_CONFIDENCE_RATIO || '0.005'), // confidence / price
+    SIGMA_LIMIT: parseFloat(process.env.TICK_SIGMA_LIMIT || '8'), // Max jump in stddevs of recent returns
+    PAIR_SIGMA_LIMITS: {
+      'PEPE/USD': 12,
+      'SHIB/USD': 12,
+      ...JSON.parse(process.env.PAIR_TICK_SIGMA_LIMITS || '{}'),
+    } as Record<string, number>,
+    MIN_SIGMA: parseFloat(process.env.TICK_MIN_SIGMA || '0.0005'), // Floor so flat markets can still move
+    RETURN_WINDOW: parseInt(process.env.TICK_RETURN_WINDOW || '120', 10),
+    MIN_SAMPLES: parseInt(process.env.TICK_MIN_SAMPLES || '20', 10),
+    MAX_CONSECUTIVE_OUTLIERS: parseInt(process.env.TICK_MAX_CONSECUTIVE_OUTLIERS || '5', 10),
+  },
+
   // Volatility Settings
   VOLATILITY: {
     WINDOW_SECONDS: parseInt(process.env.VOLATILITY_WINDOW_SECONDS || '300', 10),
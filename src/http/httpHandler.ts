@@ -0,0 +1,324 @@
+import { type IncomingMessage, type ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { GameError } from '../utils/errors.js';
+import { formatMoney } from '../utils/decimal.js';
+import { priceFeedClient } from '../services/priceFeedClient.js';
+import { tableManager } from '../services/tableManager.js';
+import { ledgerService } from '../services/ledgerService.js';
+import { fairnessService } from '../services/fairnessService.js';
+import { tickValidator } from '../services/tickValidator.js';
+import { adminService } from '../services/adminService.js';
+import { authService } from '../services/authService.js';
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+/**
+ * HTTP routes served alongside the game WebSocket
+ */
+export async function handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/health') {
+      handleHealth(res);
+      return;
+    }
+
+    const ledgerMatch = url.pathname.match(/^\/players\/([^/]+)\/ledger$/);
+    if (req.method === 'GET' && ledgerMatch) {
+      await handleLedger(req, res, decodeURIComponent(ledgerMatch[1]!), url.searchParams);
+      return;
+    }
+
+    const fairnessMatch = url.pathname.match(/^\/rounds\/([^/]+)\/fairness$/);
+    if (req.method === 'GET' && fairnessMatch) {
+      await handleFairness(res, decodeURIComponent(fairnessMatch[1]!));
+      return;
+    }
+
+    const voidMatch = url.pathname.match(/^\/admin\/rounds\/([^/]+)\/void$/);
+    if (req.method === 'POST' && voidMatch) {
+      await handleVoidRound(req, res, decodeURIComponent(voidMatch[1]!));
+      return;
+    }
+
+    const revenueMatch = url.pathname.match(/^\/admin\/rounds\/([^/]+)\/revenue$/);
+    if (req.method === 'GET' && revenueMatch) {
+      await handleRoundRevenue(req, res, decodeURIComponent(revenueMatch[1]!));
+      return;
+    }
+
+    const claimMatch = url.pathname.match(/^\/admin\/players\/([^/]+)\/claim-token$/);
+    if (req.method === 'POST' && claimMatch) {
+      await handleClaimToken(req, res, decodeURIComponent(claimMatch[1]!));
+      return;
+    }
+
+    res.writeHead(404);
+    res.end('Not Found');
+  } catch (error: any) {
+    logger.error(`Error handling ${req.method} ${url.pathname}:`, error);
+    sendJson(res, 500, { error: error.message || 'Internal server error' });
+  }
+}
+
+/**
+ * GET /health
+ */
+function handleHealth(res: ServerResponse): void {
+  sendJson(res, 200, {
+    status: 'ok',
+    timestamp: Date.now(),
+    uptime: process.uptime(),
+    priceFeedConnected: priceFeedClient.isConnected(),
+    // Room ids embed their invite codes, so rooms are only counted
+    privateRooms: tableManager.getTables().length - tableManager.getPublicTables().length,
+    tables: tableManager.getPublicTables().map((table) => {
+      const gameState = table.getGameState();
+      return {
+        id: table.table.id,
+        gamePhase: gameState.phase,
+        playersInLobby: table.getLobbyPlayerCount(),
+        currentRound: gameState.currentRound ? {
+          id: gameState.currentRound.id,
+          pair: gameState.currentRound.pair,
+          playersCount: gameState.currentRound.positions.size,
+        } : null,
+      };
+    }),
+    ticks: tickValidator.getAllStats(),
+  });
+}
+
+/**
+ * GET /players/:id/ledger?cursor=&limit=
+ * Bearer access token of that player, or an admin token
+ */
+async function handleLedger(
+  req: IncomingMessage,
+  res: ServerResponse,
+  playerId: string,
+  params: URLSearchParams
+): Promise<void> {
+  if (!authenticateAdmin(req) && authenticatePlayer(req) !== playerId) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const cursor = params.get('cursor') ?? undefined;
+  const limitParam = params.get('limit');
+  const limit = limitParam !== null ? parseInt(limitParam, 10) : undefined;
+
+  if (limit !== undefined && Number.isNaN(limit)) {
+    sendJson(res, 400, { error: 'limit must be a number' });
+    return;
+  }
+
+  const page = await ledgerService.getEntries(playerId, { cursor, limit });
+  sendJson(res, 200, page);
+}
+
+/**
+ * GET /rounds/:id/fairness
+ */
+async function handleFairness(res: ServerResponse, roundId: string): Promise<void> {
+  try {
+    const report = await fairnessService.verifyRound(roundId);
+    sendJson(res, 200, report);
+  } catch (error: any) {
+    sendJson(res, 404, { error: error.message });
+  }
+}
+
+/**
+ * POST /admin/rounds/:id/void  { reason, tableId? }
+ * ":id" may be "current" for the round at tableId (default: first table)
+ */
+async function handleVoidRound(
+  req: IncomingMessage,
+  res: ServerResponse,
+  roundIdParam: string
+): Promise<void> {
+  const admin = authenticateAdmin(req);
+  if (!admin) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const body = await readJsonBody(req);
+  const reason = getStringField(body, 'reason')?.trim() ?? '';
+  if (!reason) {
+    sendJson(res, 400, { error: 'reason is required' });
+    return;
+  }
+
+  let roundId = roundIdParam;
+  if (roundIdParam === 'current') {
+    const tableId = getStringField(body, 'tableId');
+    const table =
+      tableId !== null ? tableManager.getTable(tableId) : tableManager.getDefaultTable();
+    if (!table) {
+      sendJson(res, 404, { error: 'Table not found' });
+      return;
+    }
+
+    const currentRoundId = table.getGameState().currentRound?.id;
+    if (!currentRoundId) {
+      sendJson(res, 409, { error: 'No active round' });
+      return;
+    }
+    roundId = currentRoundId;
+  }
+
+  try {
+    const result = await adminService.voidRound(roundId, admin, reason);
+    sendJson(res, 200, {
+      roundId: result.roundId,
+      positionsReversed: result.positionsReversed,
+      payoutsReversed: formatMoney(result.payoutsReversed),
+      stakesRefunded: formatMoney(result.stakesRefunded),
+    });
+  } catch (error: any) {
+    sendJson(res, error.message === 'Round not found' ? 404 : 409, { error: error.message });
+  }
+}
+
+/**
+ * GET /admin/rounds/:id/revenue
+ */
+async function handleRoundRevenue(
+  req: IncomingMessage,
+  res: ServerResponse,
+  roundId: string
+): Promise<void> {
+  if (!authenticateAdmin(req)) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const revenue = await ledgerService.getRoundRevenue(roundId);
+  if (!revenue) {
+    sendJson(res, 404, { error: 'Round not found' });
+    return;
+  }
+
+  sendJson(res, 200, {
+    roundId: revenue.roundId,
+    status: revenue.status,
+    entryFees: formatMoney(revenue.entryFees),
+    rake: formatMoney(revenue.rake),
+    holdingFees: formatMoney(revenue.holdingFees),
+    totalFees: formatMoney(revenue.entryFees.plus(revenue.rake).plus(revenue.holdingFees)),
+    houseNet: formatMoney(revenue.houseNet),
+  });
+}
+
+/**
+ * POST /admin/players/:id/claim-token  { reason }
+ * The token goes to the player out of band; AUTH { claimToken } uses it.
+ */
+async function handleClaimToken(
+  req: IncomingMessage,
+  res: ServerResponse,
+  playerId: string
+): Promise<void> {
+  const admin = authenticateAdmin(req);
+  if (!admin) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  const body = await readJsonBody(req);
+  const reason = getStringField(body, 'reason')?.trim() ?? '';
+  if (!reason) {
+    sendJson(res, 400, { error: 'reason is required' });
+    return;
+  }
+
+  try {
+    const claim = await adminService.issueClaimToken(playerId, admin, reason);
+    sendJson(res, 200, claim);
+  } catch (error: any) {
+    sendJson(res, error instanceof GameError && error.code === 'PLAYER_NOT_FOUND' ? 404 : 500, {
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Name of the admin whose bearer token the request carries, if any
+ */
+function authenticateAdmin(req: IncomingMessage): string | null {
+  const header = req.headers.authorization ?? '';
+  if (!header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const presented = Buffer.from(header.slice('Bearer '.length).trim());
+  for (const [token, name] of Object.entries(CONFIG.ADMIN.TOKENS)) {
+    const expected = Buffer.from(token);
+    if (expected.length === presented.length && timingSafeEqual(expected, presented)) {
+      return name;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Player whose access token the request carries, if it's valid
+ */
+function authenticatePlayer(req: IncomingMessage): string | null {
+  const header = req.headers.authorization ?? '';
+  if (!header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  try {
+    return authService.verifyAccessToken(header.slice('Bearer '.length).trim()).playerId;
+  } catch {
+    return null;
+  }
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  if (size === 0) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A string field of a parsed JSON body, if the body has one
+ */
+function getStringField(body: unknown, field: string): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return null;
+  }
+
+  const value = (body as Record<string, unknown>)[field];
+  return typeof value === 'string' ? value : null;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
@@ -3,9 +3,11 @@ import { CONFIG } from './config.js';
 import { logger } from './utils/logger.js';
 import { prisma } from './services/prisma.js';
 import { priceFeedClient } from './services/priceFeedClient.js';
+import { tickValidator } from './services/tickValidator.js';
 import { volatilityService } from './services/volatilityService.js';
-import { gameStateManager } from './services/gameStateManager.js';
+import { tableManager } from './services/tableManager.js';
 import { createWebSocketServer } from './websocket/wsServer.js';
+import { handleHttpRequest } from './http/httpHandler.js';
 
 /**
  * Main entry point for Debonk Game Server
@@ -40,33 +42,15 @@ async function start() {
     await volatilityService.initialize(monitoredPairs);
     logger.info(`✅ Monitoring volatility for ${monitoredPairs.length} pairs`);
 
-    // Step 4: Initialize game state manager
-    logger.info('Step 4: Initializing game state manager...');
-    await gameStateManager.initialize();
-    logger.info('✅ Game state manager initialized');
+    // Step 4: Open the game tables
+    logger.info('Step 4: Opening game tables...');
+    await tableManager.initialize();
+    logger.info('✅ Game tables open');
 
     // Step 5: Create HTTP server
     logger.info('Step 5: Creating HTTP server...');
     const httpServer = http.createServer((req, res) => {
-      if (req.url === '/health') {
-        const gameState = gameStateManager.getGameState();
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          status: 'ok',
-          timestamp: Date.now(),
-          uptime: process.uptime(),
-          priceFeedConnected: priceFeedClient.isConnected(),
-          gamePhase: gameState.phase,
-          currentRound: gameState.currentRound ? {
-            id: gameState.currentRound.id,
-            pair: gameState.currentRound.pair,
-            playersCount: gameState.currentRound.positions.size,
-          } : null,
-        }));
-      } else {
-        res.writeHead(404);
-        res.end('Not Found');
-      }
+      void handleHttpRequest(req, res);
     });
 
     httpServer.listen(CONFIG.PORT, () => {
@@ -75,36 +59,75 @@ async function start() {
       logger.info('═══════════════════════════════════════════');
       logger.info(`📍 HTTP:      http://localhost:${CONFIG.PORT}`);
       logger.info(`🔌 WebSocket: ws://localhost:${CONFIG.PORT}/game`);
-      logger.info(`🎮 Game Loop: ${CONFIG.GAME.LOBBY_DURATION_SECONDS}s lobby → random round`);
-      logger.info(`⚡ Leverage:  ${CONFIG.GAME.DEFAULT_LEVERAGE}X`);
+      for (const table of tableManager.getTables()) {
+        const { id, lobbyDurationSeconds, lobbyRules, roundType, leverageTiers } = table.table;
+        logger.info(`🎮 Table ${id}: ${lobbyDurationSeconds}s lobby (${lobbyRules.minPlayers}-${lobbyRules.maxPlayers} players) → ${roundType} round, ${leverageTiers.map((tier) => `${tier}X`).join(' / ')}`);
+      }
       logger.info('═══════════════════════════════════════════');
       logger.info('\nAvailable endpoints:');
-      logger.info('  GET  /health    - Health check');
-      logger.info('  WS   /game      - Game WebSocket');
+      logger.info('  GET  /health    - Health check (per-table state, per-pair tick filter stats)');
+      logger.info('  GET  /players/:id/ledger - Balance ledger (paged), the player\'s access token or an admin token');
+      logger.info('  GET  /rounds/:id/fairness - Verify a round from its revealed seeds');
+      logger.info('  POST /admin/rounds/:id/void - Void a round (id, or "current" with tableId), bearer token');
+      logger.info('  GET  /admin/rounds/:id/revenue - Fees and house net for a round, bearer token');
+      logger.info('  POST /admin/players/:id/claim-token - One-time sign-in for a player without a session, bearer token');
+      logger.info(`  WS   /game      - Game WebSocket (frames up to ${CONFIG.WS.MAX_PAYLOAD_BYTES} bytes, rate limited per connection)`);
       logger.info('\nWebSocket Events (Client → Server):');
-      logger.info('  JOIN_LOBBY  { playerId, username, betAmount }');
-      logger.info('  SHOOT       { playerId, roundId }');
-      logger.info('  PING        { }');
+      logger.info('  AUTH        { token } or { claimToken } (admin-issued) or { username } (new guest)');
+      logger.info('  REFRESH     { refreshToken }');
+      logger.info('  WALLET_NONCE { chain: evm|solana, address }');
+      logger.info('  WALLET_AUTH { nonce, signature, username? } (new wallets get a player)');
+      logger.info('  LINK_WALLET { nonce, signature }');
+      logger.info('  Player events act as the authenticated player; a playerId sent along must match');
+      logger.info('  JOIN_LOBBY  { betAmount, clientSeed?, side?, leverage? }');
+      logger.info('  LEAVE_LOBBY { }');
+      logger.info('  UPDATE_BET  { betAmount, side?, leverage? }');
+      logger.info('  SHOOT       { roundId, fraction?, amount? }');
+      logger.info('  SET_ORDERS  { roundId, takeProfit?, stopLoss? }');
+      logger.info('  GET_LEDGER  { cursor?, limit? }');
+      logger.info('  GET_STATE   { } / RESUME { } (RESUME first moves to the table holding your position)');
+      logger.info('  LIST_TABLES { }');
+      logger.info('  JOIN_TABLE  { tableId }');
+      logger.info('  CREATE_ROOM { name?, roundType?, lobbyDurationSeconds?, betAmount?, leverage? }');
+      logger.info('  JOIN_ROOM   { inviteCode }');
+      logger.info('  START_ROOM  { } (owner)');
+      logger.info('  KICK_PLAYER { targetPlayerId } (owner)');
+      logger.info('  PING        { } (sockets are also pinged at the protocol level; answer or be dropped)');
       logger.info('\nWebSocket Events (Server → Client):');
-      logger.info('  LOBBY_UPDATE     { secondsRemaining, playersInLobby, players }');
-      logger.info('  ROUND_START      { roundId, pair, entryPrice, leverage, myPosition }');
-      logger.info('  PRICE_UPDATE     { currentPrice, pnl, pnlPercentage, liquidationPrice }');
+      logger.info('  AUTHENTICATED    { playerId, username, sessionExpiresAt, tokens }');
+      logger.info('  WALLET_CHALLENGE { nonce, chain, address, message, expiresAt }');
+      logger.info('  WALLET_LINKED    { walletAddress }');
+      logger.info('  TABLES           { tables }');
+      logger.info('  TABLE_JOINED     { table }');
+      logger.info('  ROOM_CREATED     { table } (incl. inviteCode)');
+      logger.info('  KICKED / ROOM_CLOSED { tableId }');
+      logger.info('  LOBBY_UPDATE     { tableId, secondsRemaining, playersInLobby, players, rules, extensionsUsed }');
+      logger.info('  ROUND_START      { tableId, roundId, pair, entryPrice, leverage, myPosition, settlementMode, odds }');
+      logger.info('  PRICE_UPDATE     { currentPrice, pnl, pnlPercentage, liquidationPrice, remainingAmount }');
       logger.info('  LIQUIDATED       { finalPrice, loss }');
-      logger.info('  SHOOT_SUCCESS    { exitPrice, pnl, payout }');
-      logger.info('  ROUND_END        { finalPrice, myPnl, payout, didShoot, reason }');
+      logger.info('  SHOOT_SUCCESS    { exitPrice, pnl, payout, closedAmount, remainingAmount, partial, reason, fees, deferred }');
+      logger.info('  ORDERS_UPDATED   { roundId, takeProfit, stopLoss }');
+      logger.info('  ROUND_VOIDED     { roundId, reason, refund, newBalance }');
+      logger.info('  ROUND_END        { finalPrice, myPnl, payout, didShoot, reason, exits, fees, settlementMode, pool }');
+      logger.info('  STATE            { tableId, phase, serverTime, lobby, round, position }');
+      logger.info('  ROUND_STREAM     { tableId, roundId, pair, entryPrice, currentPrice, status, stats } (to everyone on the table)');
+      logger.info('  ROUND_FEED       { tableId, roundId, event, side, leverage, price, pnl, partial, reason, at } (anonymous)');
+      logger.info('  PONG             { serverTime, rttMs, avgRttMs }');
     });
 
     // Step 6: Create WebSocket server
     logger.info('Step 6: Creating WebSocket server...');
-    createWebSocketServer(httpServer);
+    const wss = createWebSocketServer(httpServer);
     logger.info('✅ WebSocket server created');
 
     // Graceful shutdown
     const shutdown = async () => {
       logger.info('Shutting down gracefully...');
       
-      gameStateManager.close();
+      wss.close();
+      tableManager.close();
       volatilityService.close();
+      tickValidator.close();
       priceFeedClient.close();
       await prisma.$disconnect();
       
@@ -0,0 +1,229 @@
+import { EventEmitter } from 'events';
+import { type LedgerEntry, type Position, type Prisma } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { type Decimal, ZERO, sumDecimals, toDecimal } from '../utils/decimal.js';
+import { prisma } from './prisma.js';
+import { ledgerService, PLAYER_ACCOUNT } from './ledgerService.js';
+import { tableManager } from './tableManager.js';
+import { authService, type ClaimToken } from './authService.js';
+
+export interface VoidRoundResult {
+  roundId: string;
+  positionsReversed: number;
+  payoutsReversed: Decimal;
+  stakesRefunded: Decimal;
+  affectedPlayerIds: string[];
+}
+
+/**
+ * Manual interventions by operators
+ *
+ * Voiding a round puts every player back where they were before it: stakes
+ * still open are refunded by the game, then each settled position has its
+ * payouts reversed and any stake not yet returned refunded, all through the
+ * ledger. A position is claimed by setting reversedAt, so retrying a void
+ * never reverses twice. Claim tokens let players from before sign-in
+ * existed take their accounts back. Every action lands in the admin audit
+ * log.
+ */
+export class AdminService extends EventEmitter {
+  async voidRound(roundId: string, admin: string, reason: string): Promise<VoidRoundResult> {
+    const table = tableManager.findTableByRound(roundId);
+
+    if (table) {
+      await table.voidCurrentRound(`Voided by admin: ${reason}`);
+    }
+
+    const round: Prisma.RoundGetPayload<{ include: { positions: true } }> | null =
+      await prisma.round.findUnique({
+        where: { id: roundId },
+        include: { positions: true },
+      });
+
+    if (!round) {
+      throw new Error('Round not found');
+    }
+
+    if (round.status === 'active') {
+      throw new Error('Round still has unsettled positions - recovery will refund them on restart');
+    }
+
+    const positions: Position[] = round.positions;
+    if (positions.some((p) => p.settlementKey === null)) {
+      throw new Error('Round has unsettled positions');
+    }
+
+    const result: VoidRoundResult = {
+      roundId,
+      positionsReversed: 0,
+      payoutsReversed: ZERO,
+      stakesRefunded: ZERO,
+      affectedPlayerIds: [],
+    };
+
+    for (const position of positions) {
+      const reversal = await this.reversePosition(position);
+      if (!reversal) continue;
+
+      result.positionsReversed++;
+      result.payoutsReversed = result.payoutsReversed.plus(reversal.payouts);
+      result.stakesRefunded = result.stakesRefunded.plus(reversal.refund);
+      result.affectedPlayerIds.push(position.playerId);
+    }
+
+    const details: Prisma.InputJsonValue = {
+      positionsReversed: result.positionsReversed,
+      payoutsReversed: result.payoutsReversed.toString(),
+      stakesRefunded: result.stakesRefunded.toString(),
+    };
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.round.update({
+        where: { id: roundId },
+        data: {
+          status: 'voided',
+          voidReason: reason,
+          endedAt: round.endedAt ?? new Date(),
+        },
+      });
+
+      await tx.adminAction.create({
+        data: {
+          admin,
+          action: 'VOID_ROUND',
+          roundId,
+          reason,
+          details,
+        },
+      });
+    });
+
+    logger.warn(
+      `🛑 Admin ${admin} voided round ${roundId} (${reason}) - reversed $${result.payoutsReversed}, refunded $${result.stakesRefunded}`
+    );
+
+    this.emit('admin:round_voided', {
+      roundId,
+      reason,
+      playerIds: result.affectedPlayerIds,
+    });
+
+    return result;
+  }
+
+  /**
+   * Hand out a claim token for a player who has no way to sign in
+   */
+  async issueClaimToken(playerId: string, admin: string, reason: string): Promise<ClaimToken> {
+    const claim = await authService.createClaimToken(playerId);
+    const details: Prisma.InputJsonValue = {
+      playerId,
+      expiresAt: new Date(claim.expiresAt).toISOString(),
+    };
+
+    await prisma.adminAction.create({
+      data: {
+        admin,
+        action: 'ISSUE_CLAIM_TOKEN',
+        reason,
+        details,
+      },
+    });
+
+    logger.warn(`🔑 Admin ${admin} issued a claim token for ${claim.username} (${playerId}): ${reason}`);
+
+    return claim;
+  }
+
+  /**
+   * Undo one settled position: take back its payouts, return its stake and fee
+   * Returns null if the position was already reversed.
+   */
+  private async reversePosition(
+    position: Position
+  ): Promise<{ payouts: Decimal; refund: Decimal } | null> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.position.updateMany({
+        where: { id: position.id, reversedAt: null },
+        data: { reversedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      const entries: LedgerEntry[] = await tx.ledgerEntry.findMany({
+        where: { positionId: position.id, account: PLAYER_ACCOUNT },
+      });
+      const sumOf = (...types: string[]) =>
+        sumDecimals(entries.filter((e) => types.includes(e.type)).map((e) => toDecimal(e.amount)));
+
+      // Whatever the position still owes the player once payouts are taken back
+      const payouts = sumOf('SHOOT_PAYOUT', 'EXPIRY_PAYOUT');
+      const refund = payouts.minus(sumDecimals(entries.map((e) => toDecimal(e.amount))));
+
+      if (!payouts.isZero()) {
+        await ledgerService.post(tx, {
+          playerId: position.playerId,
+          type: 'PAYOUT_REVERSAL',
+          amount: payouts.neg(),
+          roundId: position.roundId,
+          positionId: position.id,
+          note: 'Round voided by admin',
+        });
+      }
+
+      if (!refund.isZero()) {
+        await ledgerService.post(tx, {
+          playerId: position.playerId,
+          type: 'REFUND',
+          amount: refund,
+          roundId: position.roundId,
+          positionId: position.id,
+          note: 'Round voided by admin',
+        });
+      }
+
+      const statsUpdate = this.buildStatsReversal(position);
+      if (statsUpdate) {
+        await tx.player.update({
+          where: { id: position.playerId },
+          data: statsUpdate,
+        });
+      }
+
+      return { payouts, refund };
+    });
+  }
+
+  /**
+   * Undo what settlement added to the player's stats
+   */
+  private buildStatsReversal(position: Position): Prisma.PlayerUpdateInput | null {
+    if (position.pnl === null) {
+      return null;
+    }
+
+    const pnl = toDecimal(position.pnl);
+
+    // Refunds only ever added realized P&L
+    if (position.outcome === 'refund') {
+      return pnl.isZero() ? null : { totalPnl: { decrement: pnl } };
+    }
+
+    const updateData: Prisma.PlayerUpdateInput = {
+      totalPnl: { decrement: pnl },
+      gamesPlayed: { decrement: 1 },
+    };
+
+    if (pnl.gt(0)) {
+      updateData.gamesWon = { decrement: 1 };
+    } else if (pnl.lt(0)) {
+      updateData.gamesLost = { decrement: 1 };
+    }
+
+    return updateData;
+  }
+}
+
+export const adminService = new AdminService();
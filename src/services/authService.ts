@@ -0,0 +1,363 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { type Player } from '@prisma/client';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { GameError } from '../utils/errors.js';
+import { toMoney } from '../utils/decimal.js';
+import { normalizeWalletAddress, verifyWalletSignature } from '../utils/walletSignature.js';
+import { type SessionTokens, type WalletChain } from '../types.js';
+import { prisma } from './prisma.js';
+import { ledgerService } from './ledgerService.js';
+
+type TokenKind = 'access' | 'refresh' | 'claim';
+
+interface TokenPayload {
+  sub: string; // Player ID
+  name: string;
+  kind: TokenKind;
+  exp: number; // ms
+  jti?: string; // Claim tokens: the player's claimNonce
+}
+
+export interface Session {
+  playerId: string;
+  username: string;
+  expiresAt: number;
+}
+
+export interface IssuedSession {
+  session: Session;
+  tokens: SessionTokens;
+}
+
+export interface ClaimToken {
+  playerId: string;
+  username: string;
+  claimToken: string;
+  expiresAt: number;
+}
+
+export interface WalletChallenge {
+  nonce: string;
+  chain: WalletChain;
+  address: string;
+  message: string;
+  expiresAt: number;
+}
+
+const USERNAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Signed, stateless player sessions
+ *
+ * A token is base64url(JSON payload) "." base64url(HMAC-SHA256 of the
+ * payload). Short-lived access tokens authenticate a socket; the longer
+ * lived refresh token trades for a fresh pair. Nothing is stored, so a
+ * token is good until it expires.
+ *
+ * Wallet sign-in is challenge/response: the server hands out a message
+ * with a single-use nonce, and a valid signature over it signs the wallet's
+ * player in (creating one on first use) or links the wallet to a player.
+ *
+ * Players created before sessions existed have no token, and their names
+ * are taken. An admin issues such a player a claim token, good for one
+ * sign-in: its nonce is stored on the player and cleared when it's used.
+ */
+export class AuthService {
+  private readonly secret: Buffer;
+  private challenges: Map<string, WalletChallenge> = new Map(); // By nonce
+
+  constructor(secret: string = CONFIG.AUTH.SESSION_SECRET) {
+    if (secret) {
+      this.secret = Buffer.from(secret);
+    } else {
+      this.secret = randomBytes(32);
+      logger.warn('⚠️ SESSION_SECRET not set - sessions will not survive a restart');
+    }
+  }
+
+  /**
+   * Create a new player under a free username and start their session
+   */
+  async registerGuest(rawUsername: string): Promise<IssuedSession> {
+    const player = await this.createPlayer(rawUsername, null);
+    return this.issue(player.id, player.username);
+  }
+
+  /**
+   * Hand out the message a wallet has to sign to prove it's theirs
+   */
+  createWalletChallenge(chain: WalletChain, rawAddress: string): WalletChallenge {
+    const address = this.normalizeAddress(chain, rawAddress);
+
+    // Drop expired challenges before counting toward the cap
+    const now = Date.now();
+    for (const [key, pending] of this.challenges) {
+      if (pending.expiresAt <= now) this.challenges.delete(key);
+    }
+    if (this.challenges.size >= CONFIG.AUTH.MAX_PENDING_WALLET_NONCES) {
+      throw new GameError('Too many sign-ins in progress - try again shortly', 'TRY_AGAIN');
+    }
+
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = now + CONFIG.AUTH.WALLET_NONCE_TTL_SECONDS * 1000;
+    const challenge: WalletChallenge = {
+      nonce,
+      chain,
+      address,
+      message: [
+        'Sign in to Debonk',
+        `Wallet: ${address}`,
+        `Nonce: ${nonce}`,
+        `Expires: ${new Date(expiresAt).toISOString()}`,
+      ].join('\n'),
+      expiresAt,
+    };
+
+    this.challenges.set(nonce, challenge);
+    return challenge;
+  }
+
+  /**
+   * Sign in with a signed challenge: the wallet's player, or a new one
+   * named username (generated when omitted)
+   */
+  async loginWithWallet(
+    nonce: string,
+    signature: string,
+    username: string | null = null
+  ): Promise<IssuedSession> {
+    const { address } = this.consumeChallenge(nonce, signature);
+
+    let player = await prisma.player.findUnique({ where: { walletAddress: address } });
+    if (!player) {
+      player = await this.createPlayer(username ?? (await this.generateWalletUsername(address)), address);
+    }
+
+    return this.issue(player.id, player.username);
+  }
+
+  /**
+   * Attach a wallet to a signed-in player so it can sign them in later
+   */
+  async linkWallet(playerId: string, nonce: string, signature: string): Promise<string> {
+    const { chain, address } = this.consumeChallenge(nonce, signature);
+
+    const owner = await prisma.player.findUnique({ where: { walletAddress: address } });
+    if (owner && owner.id !== playerId) {
+      throw new GameError('Wallet is linked to another player', 'WALLET_IN_USE');
+    }
+    if (owner) {
+      return address;
+    }
+
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      throw new GameError('Player not found', 'INVALID_TOKEN');
+    }
+    if (player.walletAddress !== null) {
+      throw new GameError('A different wallet is already linked', 'WALLET_ALREADY_LINKED');
+    }
+
+    await prisma.player.update({ where: { id: playerId }, data: { walletAddress: address } });
+    logger.info(`🔗 Player ${player.username} linked ${chain} wallet ${address}`);
+
+    return address;
+  }
+
+  /**
+   * Single-use token that signs an existing player in
+   * Issuing a new one invalidates any earlier one.
+   */
+  async createClaimToken(playerId: string): Promise<ClaimToken> {
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      throw new GameError('Player not found', 'PLAYER_NOT_FOUND');
+    }
+
+    const nonce = randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + CONFIG.AUTH.CLAIM_TOKEN_TTL_SECONDS * 1000;
+    await prisma.player.update({ where: { id: playerId }, data: { claimNonce: nonce } });
+
+    return {
+      playerId,
+      username: player.username,
+      claimToken: this.sign({ sub: playerId, name: player.username, kind: 'claim', exp: expiresAt, jti: nonce }),
+      expiresAt,
+    };
+  }
+
+  /**
+   * Trade a claim token for a session, using it up
+   */
+  async claim(claimToken: string): Promise<IssuedSession> {
+    const payload = this.verify(claimToken, 'claim');
+
+    const claimed = await prisma.player.updateMany({
+      where: { id: payload.sub, claimNonce: payload.jti ?? '' },
+      data: { claimNonce: null },
+    });
+    if (claimed.count === 0) {
+      throw new GameError('Claim token was already used or replaced', 'INVALID_TOKEN');
+    }
+
+    logger.info(`🔑 Player ${payload.name} (${payload.sub}) claimed their account`);
+    return this.issue(payload.sub, payload.name);
+  }
+
+  /**
+   * Session an access token stands for
+   */
+  verifyAccessToken(token: string): Session {
+    const payload = this.verify(token, 'access');
+    return { playerId: payload.sub, username: payload.name, expiresAt: payload.exp };
+  }
+
+  /**
+   * Trade a refresh token for a new token pair
+   */
+  async refresh(refreshToken: string): Promise<IssuedSession> {
+    const payload = this.verify(refreshToken, 'refresh');
+
+    const player = await prisma.player.findUnique({ where: { id: payload.sub } });
+    if (!player) {
+      throw new GameError('Player not found', 'INVALID_TOKEN');
+    }
+
+    return this.issue(player.id, player.username);
+  }
+
+  /**
+   * Sign a fresh access/refresh token pair for the player
+   */
+  issue(playerId: string, username: string): IssuedSession {
+    const now = Date.now();
+    const accessTokenExpiresAt = now + CONFIG.AUTH.ACCESS_TOKEN_TTL_SECONDS * 1000;
+    const refreshTokenExpiresAt = now + CONFIG.AUTH.REFRESH_TOKEN_TTL_SECONDS * 1000;
+
+    return {
+      session: { playerId, username, expiresAt: accessTokenExpiresAt },
+      tokens: {
+        accessToken: this.sign({ sub: playerId, name: username, kind: 'access', exp: accessTokenExpiresAt }),
+        accessTokenExpiresAt,
+        refreshToken: this.sign({ sub: playerId, name: username, kind: 'refresh', exp: refreshTokenExpiresAt }),
+        refreshTokenExpiresAt,
+      },
+    };
+  }
+
+  /**
+   * Verify a signature against the wallet's pending challenge
+   * The challenge is used up whether or not the signature checks out.
+   */
+  private consumeChallenge(nonce: string, signature: string): WalletChallenge {
+    const challenge = this.challenges.get(nonce);
+    this.challenges.delete(nonce);
+
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      throw new GameError('Unknown or expired nonce - request a new one', 'NONCE_EXPIRED');
+    }
+
+    if (!verifyWalletSignature(challenge.chain, challenge.address, challenge.message, signature)) {
+      throw new GameError('Invalid wallet signature', 'INVALID_SIGNATURE');
+    }
+
+    return challenge;
+  }
+
+  private normalizeAddress(chain: WalletChain, rawAddress: string): string {
+    if (chain !== 'evm' && chain !== 'solana') {
+      throw new GameError('Chain must be evm or solana', 'INVALID_WALLET');
+    }
+
+    try {
+      return normalizeWalletAddress(chain, rawAddress);
+    } catch (error: any) {
+      throw new GameError(error.message, 'INVALID_WALLET');
+    }
+  }
+
+  /**
+   * Create a funded player under a free username
+   */
+  private async createPlayer(rawUsername: string, walletAddress: string | null): Promise<Player> {
+    const username = rawUsername.trim();
+    if (
+      username.length === 0 ||
+      username.length > CONFIG.AUTH.MAX_USERNAME_LENGTH ||
+      !USERNAME_PATTERN.test(username)
+    ) {
+      throw new GameError(
+        `Username must be 1-${CONFIG.AUTH.MAX_USERNAME_LENGTH} letters, digits, _ or -`,
+        'INVALID_USERNAME'
+      );
+    }
+
+    // An existing name belongs to whoever holds its session (older
+    // players get one through an admin-issued claim token)
+    const existing = await prisma.player.findUnique({ where: { username } });
+    if (existing) {
+      throw new GameError('Username is taken', 'USERNAME_TAKEN');
+    }
+
+    const player = await ledgerService.openAccount(
+      randomUUID(),
+      username,
+      toMoney(CONFIG.PLAYER.DEFAULT_DEMO_BALANCE),
+      walletAddress
+    );
+    logger.info(`New player created: ${username} with $${CONFIG.PLAYER.DEFAULT_DEMO_BALANCE} balance`);
+
+    return player;
+  }
+
+  /**
+   * Default name for a wallet's new player, e.g. "0x12ab…cdef" → "0x12ab_cdef"
+   */
+  private async generateWalletUsername(address: string): Promise<string> {
+    const base = `${address.slice(0, 6)}_${address.slice(-4)}`;
+    const existing = await prisma.player.findUnique({ where: { username: base } });
+    return existing ? `${base}_${randomBytes(3).toString('hex')}` : base;
+  }
+
+  private sign(payload: TokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.signature(body).toString('base64url')}`;
+  }
+
+  private verify(token: string, kind: TokenKind): TokenPayload {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) {
+      throw new GameError('Invalid session token', 'INVALID_TOKEN');
+    }
+
+    const expected = this.signature(body);
+    const presented = Buffer.from(signature, 'base64url');
+    if (expected.length !== presented.length || !timingSafeEqual(expected, presented)) {
+      throw new GameError('Invalid session token', 'INVALID_TOKEN');
+    }
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(body, 'base64url').toString());
+    } catch {
+      throw new GameError('Invalid session token', 'INVALID_TOKEN');
+    }
+
+    if (payload.kind !== kind) {
+      throw new GameError(`Expected a ${kind} token`, 'INVALID_TOKEN');
+    }
+
+    if (payload.exp <= Date.now()) {
+      throw new GameError('Session expired - refresh it', 'SESSION_EXPIRED');
+    }
+
+    return payload;
+  }
+
+  private signature(body: string): Buffer {
+    return createHmac('sha256', this.secret).update(body).digest();
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,112 @@
+import { CONFIG } from '../config.js';
+import { toDecimal } from '../utils/decimal.js';
+import {
+  FairRandom,
+  combineClientSeeds,
+  hashServerSeed,
+  parseClientSeeds,
+  type ClientSeedContribution,
+} from '../utils/provablyFair.js';
+import {
+  selectRandomPair,
+  assignRandomPositions,
+  generateRandomDuration,
+} from '../utils/randomizer.js';
+import { prisma } from './prisma.js';
+
+export interface FairnessReport {
+  roundId: string;
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
+  clientSeeds: ClientSeedContribution[] | null;
+  pairCandidates: string[];
+  checks: {
+    seedHash: boolean;
+    clientSeed: boolean;
+    pair: boolean;
+    duration: boolean;
+    positions: boolean;
+  };
+  verified: boolean;
+}
+
+/**
+ * Replays a finished round from its revealed seeds
+ *
+ * The round's client seed is re-derived from the lobby's published seeds,
+ * which must include every player with a position. Draws happen in the
+ * same order as GameStateManager: pair, duration, then the LONG/SHORT
+ * shuffle (random direction mode only). Duration is replayed
+ * with the current round duration settings, so it only matches if those
+ * haven't changed since.
+ */
+export class FairnessService {
+  async verifyRound(roundId: string): Promise<FairnessReport> {
+    const round = await prisma.round.findUnique({
+      where: { id: roundId },
+      include: { positions: true },
+    });
+
+    if (!round) {
+      throw new Error('Round not found');
+    }
+
+    if (round.status === 'active') {
+      throw new Error('Round is still in progress - seed not revealed yet');
+    }
+
+    if (!round.serverSeed || !round.serverSeedHash || !round.clientSeed) {
+      throw new Error('Round predates provably fair seeds');
+    }
+
+    const rng = new FairRandom(round.serverSeed, round.clientSeed);
+    const pair = selectRandomPair(round.pairCandidates, rng);
+    const duration = generateRandomDuration(
+      round.leverage,
+      CONFIG.GAME.MIN_ROUND_DURATION_SECONDS,
+      CONFIG.GAME.MAX_ROUND_DURATION_SECONDS,
+      rng
+    );
+
+    // Chosen sides involve no draw, so there's nothing to replay
+    const positions: any[] = round.positions;
+    const assignments =
+      round.directionMode === 'choice'
+        ? null
+        : assignRandomPositions(positions.map((p) => p.playerId), rng);
+
+    // Rounds from before the seeds were stored, or with a malformed list,
+    // can't be re-derived and fail the check
+    const clientSeeds = parseClientSeeds(round.clientSeeds);
+    const contributors = new Set(clientSeeds?.map((s) => s.playerId));
+
+    const checks = {
+      seedHash: hashServerSeed(round.serverSeed) === round.serverSeedHash,
+      clientSeed:
+        clientSeeds !== null &&
+        combineClientSeeds(clientSeeds) === round.clientSeed &&
+        positions.every((p) => contributors.has(p.playerId)),
+      pair: pair === round.pair,
+      duration:
+        round.durationSeconds !== null &&
+        toDecimal(duration).eq(toDecimal(round.durationSeconds)),
+      positions:
+        assignments === null ||
+        positions.every((p) => assignments.get(p.playerId) === p.positionType),
+    };
+
+    return {
+      roundId: round.id,
+      serverSeed: round.serverSeed,
+      serverSeedHash: round.serverSeedHash,
+      clientSeed: round.clientSeed,
+      clientSeeds,
+      pairCandidates: round.pairCandidates,
+      checks,
+      verified: Object.values(checks).every(Boolean),
+    };
+  }
+}
+
+export const fairnessService = new FairnessService();
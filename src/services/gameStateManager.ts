@@ -1,4 +1,5 @@
 import { EventEmitter } from "events";
+import { type Prisma } from "@prisma/client";
 import { CONFIG } from "../config.js";
 import { logger } from "../utils/logger.js";
 import {
@@ -8,119 +9,385 @@ import {
   type PlayerPosition,
   type LobbyPlayer,
   type PriceData,
+  type RoundFairness,
+  type GameRules,
+  type PositionSide,
+  type PositionExitState,
+  type PositionOrders,
+  type OrderLevel,
+  type OrderRole,
+  type ShootReason,
+  type TableConfig,
+  type RoundStats,
 } from "../types.js";
 import { prisma } from "./prisma.js";
-import { priceFeedClient } from "./priceFeedClient.js";
+import { tickValidator } from "./tickValidator.js";
 import { volatilityService } from "./volatilityService.js";
+import { ledgerService } from "./ledgerService.js";
+import { riskEngine, type RiskBet } from "./riskEngine.js";
 import {
+  settlementService,
+  type SettlementResult,
+} from "./settlementService.js";
+import {
+  getPairCandidates,
   selectRandomPair,
   assignRandomPositions,
   generateRandomDuration,
+  getEffectiveLeverage,
 } from "../utils/randomizer.js";
+import {
+  FairRandom,
+  combineClientSeeds,
+  type ClientSeedContribution,
+  generateServerSeed,
+  hashServerSeed,
+} from "../utils/provablyFair.js";
 import {
   calculatePnL,
   calculatePnLPercentage,
   calculateLiquidationPrice,
   isLiquidated,
   calculatePayout,
+  calculateEntryFee,
+  calculateExitFees,
+  calculatePoolOdds,
+  calculatePoolPayouts,
+  getMaxLeverage,
+  isOrderTriggered,
+  type ExitFees,
 } from "../utils/calculation.js";
+import {
+  type Decimal,
+  ZERO,
+  sumDecimals,
+  toDecimal,
+  toMoney,
+  toPrice,
+} from "../utils/decimal.js";
+import { GameError } from "../utils/errors.js";
+
+/**
+ * Look up the rules for a configured round type
+ */
+export function getRoundTypeRules(roundType: string): GameRules {
+  const rules = CONFIG.ROUND_TYPES[roundType];
+  if (!rules) {
+    throw new Error(`Unknown round type: ${roundType}`);
+  }
+  return rules;
+}
 
 /**
  * Core Game State Manager
- * Handles the game loop: LOBBY → ROUND → LOBBY → ROUND ...
+ * Handles one table's game loop: LOBBY → ROUND → LOBBY → ROUND ...
  */
 export class GameStateManager extends EventEmitter {
   private gameState: GameState;
   private lobbyPlayers: Map<string, LobbyPlayer> = new Map();
   private lobbyTimer: NodeJS.Timeout | null = null;
   private roundTimer: NodeJS.Timeout | null = null;
+  private lobbyUpdateInterval: NodeJS.Timeout | null = null;
+  private lobbyClosing = false;
+  private lobbyExtensions = 0; // Extensions used by the current lobby
+  private pendingSettlements: Set<Promise<unknown>> = new Set();
   private priceUnsubscribe: (() => void) | null = null;
+  private staleCheckInterval: NodeJS.Timeout | null = null;
+  private kickedPlayers: Set<string> = new Set(); // Barred from rejoining
+  private pairWatchers: Array<() => void> = []; // Keep configured pairs' tick filters warm
 
-  constructor() {
+  // Committed seed for the next round; only its hash is public until round end
+  private serverSeed: string = generateServerSeed();
+  private serverSeedHash: string = hashServerSeed(this.serverSeed);
+
+  private readonly rules: GameRules;
+
+  constructor(readonly table: TableConfig) {
     super();
 
+    this.rules = getRoundTypeRules(table.roundType);
     this.gameState = {
       phase: "LOBBY",
       currentRound: null,
       lobbyStartTime: Date.now(),
-      lobbyEndTime: Date.now() + CONFIG.GAME.LOBBY_DURATION_SECONDS * 1000,
+      lobbyEndTime: Date.now() + table.lobbyDurationSeconds * 1000,
     };
   }
 
-  async initialize(): Promise<void> {
-    logger.info("Initializing Game State Manager...");
+  /**
+   * Open the table; recovery has to have run first
+   */
+  initialize(): void {
+    // Volatility tracking keeps the shared pool's history warm; pairs only
+    // this table trades need their own subscription
+    for (const pair of this.table.pairs ?? []) {
+      this.pairWatchers.push(tickValidator.subscribeToPair(pair, () => {}));
+    }
 
     // Start first lobby
     this.startLobby();
 
-    logger.info("✅ Game State Manager initialized");
+    logger.info(`✅ Table ${this.table.id} open (${this.table.roundType})`);
   }
 
   /**
    * Start lobby phase
    */
   private startLobby(): void {
-    logger.info("🚪 LOBBY PHASE STARTED");
+    logger.info(`🚪 [${this.table.id}] LOBBY PHASE STARTED`);
 
     const now = Date.now();
     this.gameState.phase = "LOBBY";
     this.gameState.currentRound = null;
     this.gameState.lobbyStartTime = now;
     this.gameState.lobbyEndTime =
-      now + CONFIG.GAME.LOBBY_DURATION_SECONDS * 1000;
+      now + this.table.lobbyDurationSeconds * 1000;
+
+    // Drop entries of players who never made it into a round
+    const staleIds = Array.from(this.lobbyPlayers.keys());
+    if (staleIds.length > 0) {
+      prisma.lobbyEntry
+        .deleteMany({ where: { playerId: { in: staleIds } } })
+        .catch((error: unknown) =>
+          logger.error("Error clearing stale lobby entries:", error),
+        );
+    }
 
     this.lobbyPlayers.clear();
+    this.lobbyClosing = false;
+    this.lobbyExtensions = 0;
+
+    // Commit to a fresh seed for the round this lobby leads to
+    this.serverSeed = generateServerSeed();
+    this.serverSeedHash = hashServerSeed(this.serverSeed);
 
     // Emit lobby start event
     this.emit("lobby:start", {
       lobbyEndTime: this.gameState.lobbyEndTime,
-      duration: CONFIG.GAME.LOBBY_DURATION_SECONDS,
+      duration: this.table.lobbyDurationSeconds,
+      serverSeedHash: this.serverSeedHash,
+      directionMode: this.rules.directionMode,
     });
 
     // Set timer to end lobby
-    this.lobbyTimer = setTimeout(() => {
-      this.endLobby();
-    }, CONFIG.GAME.LOBBY_DURATION_SECONDS * 1000);
+    this.scheduleLobbyEnd();
 
     // Broadcast lobby updates every second (start after 1 second, not immediately)
-    const lobbyUpdateInterval = setInterval(() => {
+    if (this.lobbyUpdateInterval) clearInterval(this.lobbyUpdateInterval);
+    this.lobbyUpdateInterval = setInterval(() => {
       if (this.gameState.phase !== "LOBBY") {
-        clearInterval(lobbyUpdateInterval);
+        if (this.lobbyUpdateInterval) clearInterval(this.lobbyUpdateInterval);
+        this.lobbyUpdateInterval = null;
         return;
       }
 
-      const secondsRemaining = Math.max(
-        0,
-        Math.ceil((this.gameState.lobbyEndTime! - Date.now()) / 1000),
+      this.emitLobbyUpdate();
+    }, 1000);
+  }
+
+  /**
+   * (Re)arm the lobby timer for the current lobbyEndTime
+   */
+  private scheduleLobbyEnd(): void {
+    if (this.lobbyTimer) clearTimeout(this.lobbyTimer);
+    this.lobbyTimer = setTimeout(
+      () => {
+        this.endLobby();
+      },
+      Math.max(0, this.gameState.lobbyEndTime! - Date.now()),
+    );
+  }
+
+  /**
+   * Push the lobby end back by the table's extension length
+   */
+  private extendLobby(reason: string): void {
+    this.lobbyExtensions++;
+    this.gameState.lobbyEndTime =
+      Math.max(this.gameState.lobbyEndTime!, Date.now()) +
+      this.table.lobbyRules.extensionSeconds * 1000;
+    this.scheduleLobbyEnd();
+
+    logger.info(
+      `⏳ [${this.table.id}] Lobby extended ${this.table.lobbyRules.extensionSeconds}s (${this.lobbyExtensions}/${this.table.lobbyRules.maxExtensions}): ${reason}`,
+    );
+
+    this.emit("lobby:extended", {
+      reason,
+      lobbyEndTime: this.gameState.lobbyEndTime,
+      extensionsUsed: this.lobbyExtensions,
+    });
+  }
+
+  /**
+   * Run the lobby again for a full period, keeping its entries and the
+   * seed commitment (no round was drawn from it)
+   */
+  private rollOverLobby(reason: string): void {
+    const now = Date.now();
+    this.gameState.lobbyStartTime = now;
+    this.gameState.lobbyEndTime = now + this.table.lobbyDurationSeconds * 1000;
+    this.lobbyExtensions = 0;
+    this.scheduleLobbyEnd();
+
+    logger.info(
+      `🔁 [${this.table.id}] Lobby rolled over with ${this.lobbyPlayers.size} player(s): ${reason}`,
+    );
+
+    this.emit("lobby:rolled_over", {
+      reason,
+      lobbyEndTime: this.gameState.lobbyEndTime,
+      playersInLobby: this.lobbyPlayers.size,
+    });
+  }
+
+  /**
+   * Why the lobby can't close into a round yet, or null if it can
+   */
+  private getLobbyShortfall(): string | null {
+    const { minPlayers, requireBothSides } = this.table.lobbyRules;
+    const players = Array.from(this.lobbyPlayers.values());
+
+    if (players.length < minPlayers) {
+      return `needs ${minPlayers} player(s), has ${players.length}`;
+    }
+
+    if (requireBothSides) {
+      // Random splits put someone on each side once there are two players
+      if (this.rules.directionMode === "random") {
+        if (players.length < 2) return "needs a player for each side";
+      } else {
+        for (const side of ["LONG", "SHORT"] as const) {
+          if (!players.some((p) => p.side === side)) {
+            return `needs a ${side} player`;
+          }
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Ensure the lobby has a seat for the player; when both sides are
+   * required, the last seat is kept for a side nobody has taken yet
+   */
+  private assertSeatAvailable(
+    side: PositionSide | null,
+    playerId: string,
+  ): void {
+    const { maxPlayers, requireBothSides } = this.table.lobbyRules;
+    const others = Array.from(this.lobbyPlayers.values()).filter(
+      (p) => p.playerId !== playerId,
+    );
+
+    if (others.length >= maxPlayers) {
+      throw new GameError(
+        `Lobby is full (${maxPlayers} players)`,
+        "LOBBY_FULL",
       );
-      const totalWagered = Array.from(this.lobbyPlayers.values()).reduce(
-        (sum, p) => sum + p.betAmount,
-        0,
+    }
+
+    if (requireBothSides && side !== null && others.length === maxPlayers - 1) {
+      const missing = (["LONG", "SHORT"] as const).find(
+        (s) => s !== side && !others.some((p) => p.side === s),
       );
+      if (missing) {
+        throw new GameError(
+          `The last seat is kept for a ${missing} player`,
+          "SIDE_REQUIRED",
+        );
+      }
+    }
+  }
 
-      this.emit("lobby:update", {
-        secondsRemaining,
-        playersInLobby: this.lobbyPlayers.size,
-        totalWagered,
-        players: Array.from(this.lobbyPlayers.values()),
-      });
-    }, 1000); // ← This is correct, but remove the duplicate lobby:start broadcast
+  /**
+   * Emit the current lobby snapshot
+   */
+  private emitLobbyUpdate(): void {
+    const secondsRemaining = Math.max(
+      0,
+      Math.ceil((this.gameState.lobbyEndTime! - Date.now()) / 1000),
+    );
+    const players = Array.from(this.lobbyPlayers.values());
+    const totalWagered = sumDecimals(players.map((p) => p.betAmount));
+    const longs = players.filter((p) => p.side === "LONG");
+    const shorts = players.filter((p) => p.side === "SHORT");
+
+    this.emit("lobby:update", {
+      secondsRemaining,
+      playersInLobby: this.lobbyPlayers.size,
+      totalWagered,
+      players,
+      serverSeedHash: this.serverSeedHash,
+      directionMode: this.rules.directionMode,
+      longTotal: sumDecimals(longs.map((p) => p.betAmount)),
+      shortTotal: sumDecimals(shorts.map((p) => p.betAmount)),
+      longCount: longs.length,
+      shortCount: shorts.length,
+      rules: this.table.lobbyRules,
+      extensionsUsed: this.lobbyExtensions,
+    });
   }
+
   /**
    * End lobby and start round
    */
   private async endLobby(): Promise<void> {
-    logger.info("🚪 LOBBY PHASE ENDED");
-
     if (this.lobbyPlayers.size === 0) {
-      logger.warn("No players in lobby. Starting new lobby...");
+      logger.warn(`[${this.table.id}] No players in lobby. Starting new lobby...`);
       this.startLobby();
       return;
     }
 
-    // Select random high-volatility pair
-    const volatilePairs = volatilityService.getHighVolatilityPairs();
-    const selectedPair = selectRandomPair(volatilePairs);
+    // Short of players or sides: give the lobby more time, then start over
+    // with the same entries
+    const shortfall = this.getLobbyShortfall();
+    if (shortfall) {
+      if (this.lobbyExtensions < this.table.lobbyRules.maxExtensions) {
+        this.extendLobby(shortfall);
+      } else {
+        this.rollOverLobby(shortfall);
+      }
+      this.emitLobbyUpdate();
+      return;
+    }
+
+    // A pair the tick filter can't judge yet could let one bad print
+    // liquidate everyone, so wait for history rather than trade it
+    const pairPool = this.getPairPool();
+    const allCandidates = pairPool.filter((pair) => tickValidator.isWarm(pair));
+    if (pairPool.length > 0 && allCandidates.length === 0) {
+      this.rollOverLobby("waiting for price history on the table's pairs");
+      this.emitLobbyUpdate();
+      return;
+    }
+
+    logger.info(`🚪 [${this.table.id}] LOBBY PHASE ENDED`);
+
+    // Freeze the lobby so joins, leaves and bet edits can't race startRound
+    this.lobbyClosing = true;
+
+    // Every random decision for the round is drawn from the committed
+    // server seed and the players' client seeds, in a fixed order:
+    // pair, duration, then LONG/SHORT shuffle
+    const clientSeeds = Array.from(this.lobbyPlayers.values(), (p) => ({
+      playerId: p.playerId,
+      clientSeed: p.clientSeed,
+    }));
+    const clientSeed = combineClientSeeds(clientSeeds);
+    const rng = new FairRandom(this.serverSeed, clientSeed);
+
+    // Select a random pair from the table's pool, preferring pairs that
+    // allow every player's leverage
+    const highestLeverage = Math.max(
+      ...Array.from(this.lobbyPlayers.values(), (p) => p.leverage),
+    );
+    const supported = allCandidates.filter(
+      (pair) => getMaxLeverage(pair) >= highestLeverage,
+    );
+    const pairCandidates = supported.length > 0 ? supported : allCandidates;
+    const selectedPair = selectRandomPair(pairCandidates, rng);
 
     if (!selectedPair) {
       logger.error("No volatile pairs available. Starting new lobby...");
@@ -128,40 +395,76 @@ export class GameStateManager extends EventEmitter {
       return;
     }
 
-    await this.startRound(selectedPair);
+    await this.startRound(selectedPair, {
+      rng,
+      serverSeed: this.serverSeed,
+      serverSeedHash: this.serverSeedHash,
+      clientSeed,
+      clientSeeds,
+      pairCandidates,
+    });
   }
 
   /**
    * Start trading round
    */
-  private async startRound(pair: string): Promise<void> {
-    logger.info(`🎮 ROUND STARTED - Pair: ${pair}`);
+  private async startRound(
+    pair: string,
+    fairness: RoundFairness & {
+      rng: FairRandom;
+      clientSeeds: ClientSeedContribution[];
+      pairCandidates: string[];
+    },
+  ): Promise<void> {
+    logger.info(`🎮 [${this.table.id}] ROUND STARTED - Pair: ${pair}`);
 
     const now = Date.now();
-    const leverage = CONFIG.GAME.DEFAULT_LEVERAGE;
+
+    // Cap leverage at the pair's limit (only needed if volatility moved the
+    // candidate pool since players joined), then let the stake-weighted
+    // mix set how long the round can run
+    const maxLeverage = getMaxLeverage(pair);
+    const positionLeverage = new Map<string, number>();
+    for (const lobbyPlayer of this.lobbyPlayers.values()) {
+      if (lobbyPlayer.leverage > maxLeverage) {
+        logger.warn(
+          `Capping ${lobbyPlayer.username}'s ${lobbyPlayer.leverage}X to ${maxLeverage}X on ${pair}`,
+        );
+      }
+      positionLeverage.set(
+        lobbyPlayer.playerId,
+        Math.min(lobbyPlayer.leverage, maxLeverage),
+      );
+    }
+
+    const leverage = getEffectiveLeverage(
+      Array.from(this.lobbyPlayers.values(), (p) => ({
+        betAmount: p.betAmount,
+        leverage: positionLeverage.get(p.playerId)!,
+      })),
+    );
     const duration = generateRandomDuration(
       leverage,
       CONFIG.GAME.MIN_ROUND_DURATION_SECONDS,
       CONFIG.GAME.MAX_ROUND_DURATION_SECONDS,
+      fairness.rng,
     );
 
     // Get current price as entry price
-    let entryPrice: number;
+    let entryPrice: Decimal;
     try {
       const priceData = await this.getCurrentPrice(pair);
-      entryPrice = priceData.price;
+      const publishAge = this.getPublishAgeSeconds(priceData);
+      if (publishAge > CONFIG.PRICE_GUARD.MAX_PUBLISH_AGE_SECONDS) {
+        throw new Error(`Entry price is ${publishAge.toFixed(0)}s old`);
+      }
+      entryPrice = toPrice(pair, priceData.price);
     } catch (error) {
       logger.error(`Failed to get entry price for ${pair}:`, error);
       this.startLobby();
       return;
     }
 
-    // Calculate total wagered
-    const totalWagered = Array.from(this.lobbyPlayers.values()).reduce(
-      (sum, p) => sum + p.betAmount,
-      0,
-    );
-
     // Create round in database
     const round = await prisma.round.create({
       data: {
@@ -171,50 +474,152 @@ export class GameStateManager extends EventEmitter {
         durationSeconds: duration,
         startedAt: new Date(now),
         status: "active",
+        tableId: this.table.id,
+        directionMode: this.rules.directionMode,
+        settlementMode: this.rules.settlementMode,
+        serverSeed: fairness.serverSeed,
+        serverSeedHash: fairness.serverSeedHash,
+        clientSeed: fairness.clientSeed,
+        clientSeeds: fairness.clientSeeds,
+        pairCandidates: fairness.pairCandidates,
       },
     });
 
-    // Assign random positions to players
+    // Assign positions: chosen sides, or a random 50/50 split
     const playerIds = Array.from(this.lobbyPlayers.keys());
-    const positionAssignments = assignRandomPositions(playerIds);
+    const positionAssignments =
+      this.rules.directionMode === "choice"
+        ? new Map<string, PositionSide>(
+            Array.from(this.lobbyPlayers.values(), (p) => [
+              p.playerId,
+              p.side!,
+            ]),
+          )
+        : assignRandomPositions(playerIds, fairness.rng);
+
+    // Trim bets that would take the round past the house's limits; pool
+    // rounds put nothing of the house's at risk
+    if (this.rules.settlementMode === "fixed") {
+      const { scaled, dropped } = riskEngine.scaleBets(
+        Array.from(positionAssignments.entries(), ([playerId, side]) => ({
+          playerId,
+          betAmount: this.lobbyPlayers.get(playerId)!.betAmount,
+          leverage: positionLeverage.get(playerId)!,
+          side,
+        })),
+        this.table.minBet,
+      );
+
+      // Nothing has been charged yet, so a dropped player just sits out
+      for (const playerId of dropped) {
+        const lobbyPlayer = this.lobbyPlayers.get(playerId)!;
+        logger.warn(
+          `Dropping ${lobbyPlayer.username} from round ${round.id}: bet would fall below $${this.table.minBet} to fit house limits`,
+        );
+        positionAssignments.delete(playerId);
+        this.emit("lobby:player_left", {
+          playerId,
+          username: lobbyPlayer.username,
+          reason: "house_limit",
+        });
+      }
+
+      for (const [playerId, betAmount] of scaled) {
+        const lobbyPlayer = this.lobbyPlayers.get(playerId)!;
+        logger.warn(
+          `Scaling ${lobbyPlayer.username}'s bet $${lobbyPlayer.betAmount} → $${betAmount} to fit house limits`,
+        );
+        lobbyPlayer.betAmount = betAmount;
+      }
+    }
 
     // Create positions map
     const positions = new Map<string, PlayerPosition>();
 
     for (const [playerId, positionType] of positionAssignments.entries()) {
       const lobbyPlayer = this.lobbyPlayers.get(playerId)!;
+      const playerLeverage = positionLeverage.get(playerId)!;
+      const entryFee = calculateEntryFee(lobbyPlayer.betAmount);
+
+      // Save position and deduct bet amount and fee from player balance
+      // together. The balance was checked at join, but the player may have
+      // spent it at another table since; the debit is what decides.
+      try {
+        await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+          const dbPosition = await tx.position.create({
+            data: {
+              roundId: round.id,
+              playerId,
+              positionType,
+              entryAmount: lobbyPlayer.betAmount,
+              leverage: playerLeverage,
+              entryFee,
+            },
+          });
+
+          let balance = await ledgerService.post(tx, {
+            playerId,
+            type: "BET_PLACED",
+            amount: lobbyPlayer.betAmount.neg(),
+            roundId: round.id,
+            positionId: dbPosition.id,
+          });
+
+          if (!entryFee.isZero()) {
+            balance = await ledgerService.post(tx, {
+              playerId,
+              type: "ENTRY_FEE",
+              amount: entryFee.neg(),
+              roundId: round.id,
+              positionId: dbPosition.id,
+            });
+          }
+
+          if (balance.isNegative()) {
+            throw new GameError(
+              "Insufficient balance for bet and entry fee",
+              "INSUFFICIENT_BALANCE",
+            );
+          }
+        });
+      } catch (error) {
+        if (!(error instanceof GameError)) throw error;
+
+        logger.warn(
+          `Dropping ${lobbyPlayer.username} from round ${round.id}: ${error.message}`,
+        );
+        this.emit("lobby:player_left", {
+          playerId,
+          username: lobbyPlayer.username,
+          reason: "insufficient_balance",
+        });
+        continue;
+      }
 
       positions.set(playerId, {
         playerId,
         positionType,
         betAmount: lobbyPlayer.betAmount,
+        remainingAmount: lobbyPlayer.betAmount,
+        leverage: playerLeverage,
         entryPrice,
-        currentPnl: 0,
+        currentPnl: ZERO,
+        realizedPnl: ZERO,
+        realizedPayout: ZERO,
+        entryFee,
+        rakeFees: ZERO,
+        holdingFees: ZERO,
+        exits: [],
+        exitSequence: 0,
+        orders: { takeProfit: null, stopLoss: null },
         liquidated: false,
         didShoot: false,
         shotAt: null,
-      });
-
-      // Save position to database
-      await prisma.position.create({
-        data: {
-          roundId: round.id,
-          playerId,
-          positionType,
-          entryAmount: lobbyPlayer.betAmount,
-        },
-      });
-
-      // Deduct bet amount from player balance
-      await prisma.player.update({
-        where: { id: playerId },
-        data: {
-          demoBalance: { decrement: lobbyPlayer.betAmount },
-        },
+        exitPrice: null,
       });
 
       logger.info(
-        `Player ${playerId} bet $${lobbyPlayer.betAmount} - Position: ${positionType}`,
+        `Player ${playerId} bet $${lobbyPlayer.betAmount} - Position: ${positionType} ${playerLeverage}X`,
       );
     }
 
@@ -225,6 +630,25 @@ export class GameStateManager extends EventEmitter {
       },
     });
 
+    if (positions.size === 0) {
+      logger.warn(`[${this.table.id}] No position could be opened. Starting new lobby...`);
+      await prisma.round.update({
+        where: { id: round.id },
+        data: {
+          endedAt: new Date(),
+          status: "voided",
+          voidReason: "No position could be opened",
+        },
+      });
+      this.startLobby();
+      return;
+    }
+
+    // Calculate total wagered
+    const totalWagered = sumDecimals(
+      Array.from(positions.values(), (p) => p.betAmount),
+    );
+
     // Update game state
     this.gameState.phase = "ROUND";
     this.gameState.currentRound = {
@@ -238,11 +662,31 @@ export class GameStateManager extends EventEmitter {
       duration,
       totalWagered,
       positions,
+      lastTickAt: Date.now(),
+      directionMode: this.rules.directionMode,
+      settlementMode: this.rules.settlementMode,
+      fairness: {
+        serverSeed: fairness.serverSeed,
+        serverSeedHash: fairness.serverSeedHash,
+        clientSeed: fairness.clientSeed,
+      },
     };
 
     // Clear lobby players
     this.lobbyPlayers.clear();
 
+    // In pool rounds the LONG/SHORT split sets the odds
+    const stakeOn = (side: PositionSide) =>
+      sumDecimals(
+        Array.from(positions.values())
+          .filter((pos) => pos.positionType === side)
+          .map((pos) => pos.betAmount),
+      );
+    const odds =
+      this.rules.settlementMode === "pool"
+        ? calculatePoolOdds(stakeOn("LONG"), stakeOn("SHORT"))
+        : null;
+
     // Emit round start event
     this.emit("round:start", {
       roundId: round.id,
@@ -251,15 +695,20 @@ export class GameStateManager extends EventEmitter {
       leverage,
       duration,
       totalWagered,
+      settlementMode: this.rules.settlementMode,
+      odds,
+      serverSeedHash: fairness.serverSeedHash,
+      clientSeed: fairness.clientSeed,
       positions: Array.from(positions.entries()).map(([playerId, pos]) => ({
         playerId,
         positionType: pos.positionType,
         betAmount: pos.betAmount,
+        leverage: pos.leverage,
       })),
     });
 
     // Subscribe to price updates
-    this.priceUnsubscribe = priceFeedClient.subscribeToPair(
+    this.priceUnsubscribe = tickValidator.subscribeToPair(
       pair,
       (priceData: PriceData) => {
         this.handlePriceUpdate(priceData);
@@ -271,6 +720,14 @@ export class GameStateManager extends EventEmitter {
       this.endRound("time_expired");
     }, duration * 1000);
 
+    // Void the round if the feed goes quiet for this pair
+    this.staleCheckInterval = setInterval(() => {
+      const staleReason = this.getStaleReason();
+      if (staleReason) {
+        this.voidRound(staleReason);
+      }
+    }, 1000);
+
     logger.info(
       `Round will end in ${duration}s - Total wagered: $${totalWagered}`,
     );
@@ -285,7 +742,20 @@ export class GameStateManager extends EventEmitter {
     }
 
     const round = this.gameState.currentRound;
-    round.currentPrice = priceData.price;
+    if (round.endTime !== null) {
+      return;
+    }
+
+    // Never trade on an old price; refund instead
+    const publishAge = this.getPublishAgeSeconds(priceData);
+    if (publishAge > CONFIG.PRICE_GUARD.MAX_PUBLISH_AGE_SECONDS) {
+      this.voidRound(`Price feed published a ${publishAge.toFixed(0)}s old price`);
+      return;
+    }
+
+    const price = toPrice(round.pair, priceData.price);
+    round.currentPrice = price;
+    round.lastTickAt = Date.now();
 
     // Update all positions
     for (const [playerId, position] of round.positions.entries()) {
@@ -293,90 +763,87 @@ export class GameStateManager extends EventEmitter {
         continue; // Skip already closed positions
       }
 
-      // Calculate current P&L
+      // Calculate current P&L: what's locked in plus the open stake
       const pnl = calculatePnL(
         position.positionType,
         position.entryPrice,
-        priceData.price,
-        position.betAmount,
-        round.leverage,
+        price,
+        position.remainingAmount,
+        position.leverage,
       );
 
-      position.currentPnl = pnl;
+      position.currentPnl = position.realizedPnl.plus(pnl);
 
       // Check for liquidation
       if (
         isLiquidated(
+          round.pair,
           position.positionType,
           position.entryPrice,
-          priceData.price,
-          round.leverage,
+          price,
+          position.leverage,
         )
       ) {
+        // Only the open stake is lost; partial exits were already paid
         position.liquidated = true;
+        position.exitPrice = price;
+        position.currentPnl = position.realizedPnl.minus(
+          position.remainingAmount,
+        );
 
         logger.warn(
-          `Player ${playerId} LIQUIDATED at $${priceData.price} - Lost $${position.betAmount}`,
+          `Player ${playerId} LIQUIDATED at $${price} - Lost $${position.remainingAmount}`,
         );
 
         this.emit("player:liquidated", {
           playerId,
           roundId: round.id,
-          finalPrice: priceData.price,
-          loss: position.betAmount,
+          pair: round.pair,
+          finalPrice: price,
+          loss: position.remainingAmount,
         });
 
-        // Update database
-        prisma.position
-          .updateMany({
-            where: {
-              roundId: round.id,
-              playerId: playerId,
-            },
-            data: {
-              liquidated: true,
-              pnl: -position.betAmount,
-              exitPrice: priceData.price,
-            },
-          })
-          .catch((error) =>
-            logger.error("Error updating liquidated position:", error),
-          );
-
-        // Update player stats
-        prisma.player
-          .update({
-            where: { id: playerId },
-            data: {
-              totalPnl: { decrement: position.betAmount },
-              gamesLost: { increment: 1 },
-            },
-          })
-          .catch((error) =>
-            logger.error("Error updating player stats:", error),
-          );
+        // Pool rounds settle everyone together at round end
+        if (round.settlementMode === "pool") {
+          continue;
+        }
+
+        // Settle in the background; endRound waits for it and retries
+        // if it failed, which is safe because settlement is idempotent
+        this.trackSettlement(
+          settlementService.settlePosition({
+            roundId: round.id,
+            playerId,
+            outcome: "liquidated",
+            exitPrice: price,
+            pnl: position.currentPnl,
+            payout: ZERO,
+          }),
+        );
+        continue;
       }
+
+      // Liquidation comes first; otherwise fire any order this tick reached
+      this.checkOrders(round, position);
     }
 
     // Emit price update
     this.emit("price:update", {
       roundId: round.id,
       pair: round.pair,
-      currentPrice: priceData.price,
+      currentPrice: price,
       positions: Array.from(round.positions.entries()).map(
         ([playerId, pos]) => ({
           playerId,
           pnl: pos.currentPnl,
           pnlPercentage: calculatePnLPercentage(pos.currentPnl, pos.betAmount),
+          remainingAmount: pos.remainingAmount,
           liquidated: pos.liquidated,
         }),
       ),
     });
   }
 
-  /**
-   * End trading round
-   */
   /**
    * End trading round
    */
@@ -385,95 +852,139 @@ export class GameStateManager extends EventEmitter {
       return;
     }
 
-    logger.info(`🎮 ROUND ENDED - Reason: ${reason}`);
+    // Already ending
+    if (this.gameState.currentRound.endTime !== null) {
+      return;
+    }
+
+    // Don't settle at a price the feed stopped confirming
+    const staleReason = this.getStaleReason();
+    if (staleReason) {
+      await this.voidRound(staleReason);
+      return;
+    }
+
+    logger.info(`🎮 [${this.table.id}] ROUND ENDED - Reason: ${reason}`);
 
     const round = this.gameState.currentRound;
     const finalPrice = round.currentPrice;
+    round.endTime = Date.now();
 
-    // Unsubscribe from price updates
-    if (this.priceUnsubscribe) {
-      this.priceUnsubscribe();
-      this.priceUnsubscribe = null;
-    }
+    this.stopRoundFeeds();
+
+    // Let in-flight liquidation settlements finish before settling the rest
+    await Promise.allSettled(Array.from(this.pendingSettlements));
+
+    // Pool rounds pay nothing until now: split the pool on final P&L
+    const pool =
+      round.settlementMode === "pool" ? this.splitPool(round, finalPrice) : null;
 
-    // Calculate final payouts
+    // Calculate final payouts, blending in any partial exits
     const payouts: Array<{
       playerId: string;
-      payout: number;
-      pnl: number;
+      payout: Decimal;
+      pnl: Decimal;
       didShoot: boolean;
+      exits: PositionExitState[];
+      fees: { entryFee: Decimal; rake: Decimal; holdingFee: Decimal };
     }> = [];
+    let failedSettlements = 0;
 
     for (const [playerId, position] of round.positions.entries()) {
-      const pnl =
-        position.didShoot || position.liquidated
-          ? position.currentPnl
-          : calculatePnL(
-              position.positionType,
-              position.entryPrice,
-              finalPrice,
-              position.betAmount,
-              round.leverage,
-            );
+      const closed = position.didShoot || position.liquidated;
+      const closedAt = position.shotAt ?? round.endTime;
+      const poolPayout = pool?.payouts.get(playerId);
+
+      let pnl: Decimal;
+      let remainingPayout: Decimal;
+      let fees: ExitFees;
+      if (poolPayout !== undefined) {
+        // The pool decides the P&L; price P&L only ranked the winners
+        pnl = poolPayout.minus(position.betAmount);
+        ({ payout: remainingPayout, fees } = this.applyExitFees(
+          round,
+          position.betAmount,
+          pnl,
+          poolPayout,
+          closedAt,
+        ));
+      } else {
+        const remainingPnl = this.getFinalPnl(position, finalPrice).minus(
+          position.realizedPnl,
+        );
+        pnl = position.realizedPnl.plus(remainingPnl);
+
+        // Payout for the stake still open; partial exits were paid already
+        // (a shot position's fees were counted when it shot)
+        ({ payout: remainingPayout, fees } = this.closeStake(
+          round,
+          position.remainingAmount,
+          remainingPnl,
+          position,
+          closedAt,
+        ));
+      }
+      if (!closed || pool) {
+        position.rakeFees = position.rakeFees.plus(fees.rake);
+        position.holdingFees = position.holdingFees.plus(fees.holdingFee);
+      }
 
-      const payout = calculatePayout(
-        position.betAmount,
+      payouts.push({
+        playerId,
+        payout: position.realizedPayout.plus(remainingPayout),
         pnl,
-        position.didShoot,
-        position.liquidated,
-      );
-
-      payouts.push({ playerId, payout, pnl, didShoot: position.didShoot });
-
-      // Update position in database
-      await prisma.position.updateMany({
-        where: {
-          roundId: round.id,
-          playerId: playerId,
-        },
-        data: {
-          exitPrice: finalPrice,
-          pnl,
+        didShoot: position.didShoot,
+        exits: position.exits,
+        fees: {
+          entryFee: position.entryFee,
+          rake: position.rakeFees,
+          holdingFee: position.holdingFees,
         },
       });
 
-      // Update player balance and stats
-      const balanceChange = payout; // Payout is what they get back
-      const pnlChange = pnl; // P&L is profit/loss
-
-      // Build update data conditionally to avoid undefined values
-      const updateData: any = {
-        demoBalance: { increment: balanceChange },
-        totalPnl: { increment: pnlChange },
-        gamesPlayed: { increment: 1 },
-      };
-
-      // Only add gamesWon/gamesLost if the condition is true
-      if (pnl > 0) {
-        updateData.gamesWon = { increment: 1 };
-      } else if (pnl < 0) {
-        updateData.gamesLost = { increment: 1 };
+      // Shot and liquidated positions were settled when they closed, so
+      // this is a no-op for them unless that settlement failed
+      try {
+        await settlementService.settlePosition({
+          roundId: round.id,
+          playerId,
+          outcome: position.didShoot
+            ? "shoot"
+            : position.liquidated
+              ? "liquidated"
+              : "expired",
+          exitPrice: position.exitPrice ?? finalPrice,
+          pnl,
+          payout: remainingPayout,
+          fees,
+          ...(position.shotAt !== null && { shotAt: new Date(position.shotAt) }),
+        });
+      } catch (error) {
+        failedSettlements++;
+        logger.error(`Error settling position for player ${playerId}:`, error);
+        continue;
       }
 
-      await prisma.player.update({
-        where: { id: playerId },
-        data: updateData,
-      });
-
       logger.info(
-        `Player ${playerId} - Bet: $${position.betAmount}, P&L: $${pnl.toFixed(2)}, Payout: $${payout.toFixed(2)}`,
+        `Player ${playerId} - Bet: $${position.betAmount}, P&L: $${pnl.toFixed(2)}, Payout: $${position.realizedPayout.plus(remainingPayout).toFixed(2)}`,
       );
     }
 
-    // Update round in database
-    await prisma.round.update({
-      where: { id: round.id },
-      data: {
-        exitPrice: finalPrice,
-        endedAt: new Date(),
-        status: "completed",
-      },
-    });
+    // Leave the round active if anything failed so recovery picks it up
+    if (failedSettlements === 0) {
+      await prisma.round.update({
+        where: { id: round.id },
+        data: {
+          exitPrice: finalPrice,
+          endedAt: new Date(),
+          status: "completed",
+        },
+      });
+    } else {
+      logger.error(
+        `Round ${round.id} left active - ${failedSettlements} settlement(s) failed`,
+      );
+    }
 
     // Emit round end event
     this.emit("round:end", {
@@ -482,6 +993,10 @@ export class GameStateManager extends EventEmitter {
       finalPrice,
       reason,
       payouts,
+      settlementMode: round.settlementMode,
+      pool: pool?.summary ?? null,
+      // Reveal the seed so players can verify the round
+      fairness: round.fairness,
     });
 
     // Start new lobby
@@ -489,89 +1004,734 @@ export class GameStateManager extends EventEmitter {
   }
 
   /**
-   * Player joins lobby
-   */
-  /**
-   * Player joins lobby
+   * Void the round and refund every unpaid position, entry fee included
+   * Stakes already closed by shoot, partial exits or liquidation stand,
+   * except in pool rounds: nothing there is paid before the split, so shot
+   * and liquidated positions are refunded like open ones.
    */
-  async joinLobby(
-    playerId: string,
-    username: string,
-    betAmount: number,
-  ): Promise<void> {
-    if (this.gameState.phase !== "LOBBY") {
-      throw new Error("Cannot join lobby during active round");
+  private async voidRound(reason: string): Promise<void> {
+    if (this.gameState.phase !== "ROUND" || !this.gameState.currentRound) {
+      return;
     }
 
-    // Validate bet amount
-    if (betAmount < CONFIG.PLAYER.MIN_BET_AMOUNT) {
-      throw new Error(`Minimum bet is $${CONFIG.PLAYER.MIN_BET_AMOUNT}`);
+    if (this.gameState.currentRound.endTime !== null) {
+      return;
     }
 
-    // Check if player already in lobby
-    if (this.lobbyPlayers.has(playerId)) {
-      throw new Error("Already in lobby");
-    }
+    logger.warn(`🚫 [${this.table.id}] ROUND VOIDED - ${reason}`);
 
-    // Use upsert to create or update player
-    const player = await prisma.player.upsert({
-      where: { username },
-      update: {
-        id: playerId, // Update ID if username exists
-      },
-      create: {
-        id: playerId,
-        username,
-        demoBalance: CONFIG.PLAYER.DEFAULT_DEMO_BALANCE,
-      },
-    });
+    const round = this.gameState.currentRound;
+    round.endTime = Date.now();
 
-    logger.info(
-      player.createdAt.getTime() === player.updatedAt.getTime()
-        ? `New player created: ${username} with $${CONFIG.PLAYER.DEFAULT_DEMO_BALANCE} balance`
-        : `Existing player ${username} reconnected`,
-    );
+    this.stopRoundFeeds();
 
-    // Check balance
-    if (Number(player.demoBalance) < betAmount) {
-      throw new Error(
-        `Insufficient balance. You have $${Number(player.demoBalance).toFixed(2)}, need $${betAmount.toFixed(2)}`,
+    await Promise.allSettled(Array.from(this.pendingSettlements));
+
+    const refunds: Array<{ playerId: string; refund: Decimal }> = [];
+    let failedRefunds = 0;
+
+    for (const [playerId, position] of round.positions.entries()) {
+      const closed = position.didShoot || position.liquidated;
+      if (closed && round.settlementMode !== "pool") {
+        // Shots were paid when they shot; a liquidation settled in the
+        // background, and retrying it is a no-op unless that failed
+        if (position.liquidated) {
+          try {
+            await settlementService.settlePosition({
+              roundId: round.id,
+              playerId,
+              outcome: "liquidated",
+              exitPrice: position.exitPrice ?? round.currentPrice,
+              pnl: position.currentPnl,
+              payout: ZERO,
+            });
+          } catch (error) {
+            failedRefunds++;
+            logger.error(`Error settling liquidation for ${playerId}:`, error);
+          }
+        }
+
+        refunds.push({ playerId, refund: ZERO });
+        continue;
+      }
+
+      const refund = position.remainingAmount.plus(position.entryFee);
+
+      try {
+        await settlementService.settlePosition({
+          roundId: round.id,
+          playerId,
+          outcome: "refund",
+          exitPrice: round.entryPrice,
+          pnl: position.realizedPnl,
+          payout: refund,
+        });
+        refunds.push({ playerId, refund });
+      } catch (error) {
+        failedRefunds++;
+        refunds.push({ playerId, refund: ZERO });
+        logger.error(`Error refunding player ${playerId}:`, error);
+      }
+    }
+
+    // Leave the round active if anything failed so recovery refunds it
+    if (failedRefunds === 0) {
+      await prisma.round.update({
+        where: { id: round.id },
+        data: {
+          endedAt: new Date(),
+          status: "voided",
+          voidReason: reason,
+        },
+      });
+    } else {
+      logger.error(
+        `Round ${round.id} left active - ${failedRefunds} refund(s) failed`,
       );
     }
 
-    // Add to lobby
-    this.lobbyPlayers.set(playerId, {
-      playerId,
-      username,
-      betAmount,
-      balance: Number(player.demoBalance),
-      joinedAt: Date.now(),
+    this.emit("round:voided", {
+      roundId: round.id,
+      pair: round.pair,
+      reason,
+      refunds,
+      fairness: round.fairness,
     });
 
-    // Save to database
+    this.startLobby();
+  }
+
+  /**
+   * Void the round in progress on an admin's request
+   * Returns the voided round's ID.
+   */
+  async voidCurrentRound(reason: string): Promise<string> {
+    const round = this.gameState.currentRound;
+    if (this.gameState.phase !== "ROUND" || !round) {
+      throw new Error("No active round");
+    }
+
+    if (round.endTime !== null) {
+      throw new Error("Round is already ending");
+    }
+
+    await this.voidRound(reason);
+    return round.id;
+  }
+
+  /**
+   * Why the current round's price can no longer be trusted, if it can't
+   */
+  private getStaleReason(): string | null {
+    const round = this.gameState.currentRound;
+    if (!round) {
+      return null;
+    }
+
+    const gapSeconds = (Date.now() - round.lastTickAt) / 1000;
+    if (gapSeconds > CONFIG.PRICE_GUARD.MAX_TICK_GAP_SECONDS) {
+      return `No price update for ${round.pair} in ${gapSeconds.toFixed(0)}s`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Seconds since the feed's publish time (given in seconds or ms)
+   */
+  private getPublishAgeSeconds(priceData: PriceData): number {
+    const publishTimeMs =
+      priceData.publishTime < 1e12
+        ? priceData.publishTime * 1000
+        : priceData.publishTime;
+    return Math.max(0, (Date.now() - publishTimeMs) / 1000);
+  }
+
+  /**
+   * Stop the timers and price subscription driving the current round
+   */
+  private stopRoundFeeds(): void {
+    if (this.priceUnsubscribe) {
+      this.priceUnsubscribe();
+      this.priceUnsubscribe = null;
+    }
+
+    if (this.roundTimer) {
+      clearTimeout(this.roundTimer);
+      this.roundTimer = null;
+    }
+
+    if (this.staleCheckInterval) {
+      clearInterval(this.staleCheckInterval);
+      this.staleCheckInterval = null;
+    }
+  }
+
+  /**
+   * Player joins lobby
+   */
+  async joinLobby(
+    playerId: string,
+    requestedBet: Decimal,
+    clientSeed: string | null = null,
+    requestedSide: PositionSide | null = null,
+    requestedLeverage: number | null = null,
+  ): Promise<void> {
+    this.assertLobbyOpen("join lobby");
+
+    const betAmount = this.validateBetAmount(requestedBet);
+    const side = this.validateSide(requestedSide);
+    const leverage = this.validateLeverage(
+      requestedLeverage ?? this.table.defaultLeverage,
+    );
+
+    if (clientSeed !== null && clientSeed.length > 64) {
+      throw new Error("Client seed must be at most 64 characters");
+    }
+
+    // Check if player already in lobby
+    if (this.lobbyPlayers.has(playerId)) {
+      throw new Error("Already in lobby");
+    }
+
+    if (this.kickedPlayers.has(playerId)) {
+      throw new Error("You were removed from this table");
+    }
+
+    this.assertSeatAvailable(side, playerId);
+
+    // Players are created when they authenticate
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      throw new Error("Player not found");
+    }
+    const username: string = player.username;
+
+    // The round may have started while the player was loaded
+    this.assertLobbyOpen("join lobby");
+
+    // Check balance and house limits
+    const balance = toDecimal(player.demoBalance);
+    this.assertCanAfford(balance, betAmount);
+    this.checkRisk({ playerId, betAmount, leverage, side }, balance);
+
+    // Save to database first so the in-memory lobby never holds an entry
+    // that failed to persist
     await prisma.lobbyEntry.create({
       data: {
         playerId,
+        tableId: this.table.id,
         betAmount,
+        leverage,
       },
     });
 
+    // Joining after the client seeds were committed would leave the player
+    // out of the round's draw, so undo the entry instead
+    try {
+      this.assertLobbyOpen("join lobby");
+    } catch (error) {
+      await prisma.lobbyEntry.deleteMany({ where: { playerId } });
+      throw error;
+    }
+
+    // Add to lobby
+    this.lobbyPlayers.set(playerId, {
+      playerId,
+      username,
+      betAmount,
+      leverage,
+      balance,
+      joinedAt: Date.now(),
+      clientSeed,
+      side,
+    });
+
     logger.info(
-      `Player ${username} joined lobby with bet $${betAmount} (Balance: $${Number(player.demoBalance).toFixed(2)})`,
+      `Player ${username} joined lobby with bet $${betAmount} at ${leverage}X${side ? ` on ${side}` : ""} (Balance: $${balance.toFixed(2)})`,
     );
 
     this.emit("lobby:player_joined", {
       playerId,
       username,
       betAmount,
-      balance: Number(player.demoBalance),
+      leverage,
+      balance,
+      side,
+    });
+
+    // A join in the closing seconds gives everyone time to react to it
+    const msRemaining = this.gameState.lobbyEndTime! - Date.now();
+    if (
+      !this.lobbyClosing &&
+      msRemaining <= this.table.lobbyRules.lateJoinWindowSeconds * 1000 &&
+      this.lobbyExtensions < this.table.lobbyRules.maxExtensions
+    ) {
+      this.extendLobby(`late join by ${username}`);
+    }
+
+    this.emitLobbyUpdate();
+  }
+
+  /**
+   * Player leaves lobby before the timer expires
+   */
+  async leaveLobby(
+    playerId: string,
+    reason: "left" | "disconnected" | "kicked" = "left",
+  ): Promise<void> {
+    this.assertLobbyOpen("leave lobby");
+
+    const lobbyPlayer = this.lobbyPlayers.get(playerId);
+    if (!lobbyPlayer) {
+      throw new Error("Not in lobby");
+    }
+
+    await prisma.lobbyEntry.deleteMany({
+      where: { playerId },
+    });
+
+    // The round is already being built around this player; put the entry
+    // back so the database matches
+    try {
+      this.assertLobbyOpen("leave lobby");
+    } catch (error) {
+      await prisma.lobbyEntry.create({
+        data: {
+          playerId,
+          tableId: this.table.id,
+          betAmount: lobbyPlayer.betAmount,
+          leverage: lobbyPlayer.leverage,
+        },
+      });
+      throw error;
+    }
+
+    this.lobbyPlayers.delete(playerId);
+
+    logger.info(
+      `Player ${lobbyPlayer.username} left lobby (${reason}) - bet $${lobbyPlayer.betAmount} released`,
+    );
+
+    this.emit("lobby:player_left", {
+      playerId,
+      username: lobbyPlayer.username,
+      reason,
+    });
+
+    this.emitLobbyUpdate();
+  }
+
+  /**
+   * Remove a player from the lobby and keep them from rejoining
+   */
+  async kickPlayer(playerId: string): Promise<void> {
+    this.kickedPlayers.add(playerId);
+
+    if (this.lobbyPlayers.has(playerId)) {
+      await this.leaveLobby(playerId, "kicked");
+    }
+  }
+
+  /**
+   * End the lobby now instead of waiting for the timer
+   */
+  startEarly(): void {
+    this.assertLobbyOpen("start");
+
+    if (this.lobbyPlayers.size === 0) {
+      throw new Error("Nobody is in the lobby yet");
+    }
+
+    const shortfall = this.getLobbyShortfall();
+    if (shortfall) {
+      throw new Error(`Cannot start yet: lobby ${shortfall}`);
+    }
+
+    if (this.lobbyTimer) clearTimeout(this.lobbyTimer);
+    this.lobbyTimer = null;
+
+    logger.info(`[${this.table.id}] Lobby started early`);
+    this.endLobby();
+  }
+
+  /**
+   * Player changes bet amount, leverage (and side, in choice mode) while
+   * still in lobby
+   */
+  async updateLobbyBet(
+    playerId: string,
+    requestedBet: Decimal,
+    requestedSide: PositionSide | null = null,
+    requestedLeverage: number | null = null,
+  ): Promise<void> {
+    this.assertLobbyOpen("change bet");
+
+    const lobbyPlayer = this.lobbyPlayers.get(playerId);
+    if (!lobbyPlayer) {
+      throw new Error("Not in lobby");
+    }
+
+    const betAmount = this.validateBetAmount(requestedBet);
+    const side =
+      requestedSide === null && this.rules.directionMode === "choice"
+        ? lobbyPlayer.side
+        : this.validateSide(requestedSide);
+    const leverage = this.validateLeverage(
+      requestedLeverage ?? lobbyPlayer.leverage,
+    );
+    this.assertSeatAvailable(side, playerId);
+
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      throw new Error("Player not found");
+    }
+
+    // The round may have started while the player was loaded
+    this.assertLobbyOpen("change bet");
+
+    // Check balance and house limits
+    const balance = toDecimal(player.demoBalance);
+    this.assertCanAfford(balance, betAmount);
+    this.checkRisk({ playerId, betAmount, leverage, side }, balance);
+
+    await prisma.lobbyEntry.updateMany({
+      where: { playerId },
+      data: { betAmount, leverage },
+    });
+
+    // The round already took the old bet; put the entry back to match it
+    try {
+      this.assertLobbyOpen("change bet");
+    } catch (error) {
+      await prisma.lobbyEntry.updateMany({
+        where: { playerId },
+        data: {
+          betAmount: lobbyPlayer.betAmount,
+          leverage: lobbyPlayer.leverage,
+        },
+      });
+      throw error;
+    }
+
+    const previousBet = lobbyPlayer.betAmount;
+    lobbyPlayer.betAmount = betAmount;
+    lobbyPlayer.leverage = leverage;
+    lobbyPlayer.balance = balance;
+    lobbyPlayer.side = side;
+
+    logger.info(
+      `Player ${lobbyPlayer.username} changed bet $${previousBet} → $${betAmount} at ${leverage}X${side ? ` on ${side}` : ""}`,
+    );
+
+    this.emit("lobby:bet_updated", {
+      playerId,
+      previousBet,
+      betAmount,
+      leverage,
+      side,
+    });
+
+    this.emitLobbyUpdate();
+  }
+
+  /**
+   * Check if player is waiting in the lobby
+   */
+  isPlayerInLobby(playerId: string): boolean {
+    return this.gameState.phase === "LOBBY" && this.lobbyPlayers.has(playerId);
+  }
+
+  /**
+   * Validate a requested bet and round it to money precision
+   */
+  private validateBetAmount(requestedBet: Decimal): Decimal {
+    if (!requestedBet.isFinite()) {
+      throw new Error("Invalid bet amount");
+    }
+
+    const betAmount = toMoney(requestedBet);
+    if (betAmount.lt(this.table.minBet)) {
+      throw new Error(`Minimum bet at this table is $${this.table.minBet}`);
+    }
+
+    return betAmount;
+  }
+
+  /**
+   * Ensure a balance covers a bet plus its entry fee
+   */
+  private assertCanAfford(balance: Decimal, betAmount: Decimal): void {
+    const required = betAmount.plus(calculateEntryFee(betAmount));
+    if (balance.lt(required)) {
+      throw new Error(
+        `Insufficient balance. You have $${balance.toFixed(2)}, need $${required.toFixed(2)}`,
+      );
+    }
+  }
+
+  /**
+   * Apply the risk engine's limits to a lobby bet
+   * Pool rounds only cap stakes; the house has no exposure to limit.
+   */
+  private checkRisk(bet: RiskBet, balance: Decimal): void {
+    riskEngine.checkStake(bet.betAmount, balance, this.table.maxBet);
+
+    if (this.rules.settlementMode === "fixed") {
+      const others = Array.from(this.lobbyPlayers.values())
+        .filter((p) => p.playerId !== bet.playerId)
+        .map((p) => ({
+          playerId: p.playerId,
+          betAmount: p.betAmount,
+          leverage: p.leverage,
+          side: p.side,
+        }));
+      riskEngine.checkExposure(bet, others);
+    }
+  }
+
+  /**
+   * Validate a leverage tier against the pairs a round could draw
+   */
+  private validateLeverage(leverage: number): number {
+    if (!this.table.leverageTiers.includes(leverage)) {
+      throw new Error(
+        `Leverage at this table must be one of ${this.table.leverageTiers.map((tier) => `${tier}X`).join(", ")}`,
+      );
+    }
+
+    // Candidate pool may be empty before volatility has warmed up; endLobby
+    // handles that case
+    const candidates = this.getPairPool();
+    if (candidates.length > 0) {
+      const maxLeverage = Math.max(...candidates.map(getMaxLeverage));
+      if (leverage > maxLeverage) {
+        throw new Error(
+          `${leverage}X exceeds the max leverage of every pair in play (${maxLeverage}X)`,
+        );
+      }
+    }
+
+    return leverage;
+  }
+
+  /**
+   * Pairs a round at this table can draw: its fixed pool, or the most
+   * volatile pairs right now
+   */
+  private getPairPool(): string[] {
+    return (
+      this.table.pairs ??
+      getPairCandidates(volatilityService.getHighVolatilityPairs())
+    );
+  }
+
+  /**
+   * Validate a requested side against the direction mode
+   */
+  private validateSide(requestedSide: PositionSide | null): PositionSide | null {
+    if (this.rules.directionMode === "random") {
+      if (requestedSide !== null) {
+        throw new Error("Sides are assigned randomly in this round type");
+      }
+      return null;
+    }
+
+    if (requestedSide !== "LONG" && requestedSide !== "SHORT") {
+      throw new Error("Choose LONG or SHORT to join this round type");
+    }
+
+    return requestedSide;
+  }
+
+  /**
+   * Ensure the lobby still accepts changes
+   */
+  private assertLobbyOpen(action: string): void {
+    if (this.gameState.phase !== "LOBBY") {
+      throw new Error(`Cannot ${action} during active round`);
+    }
+
+    if (this.lobbyClosing) {
+      throw new Error(`Cannot ${action} - round is starting`);
+    }
+  }
+
+  /**
+   * Player shoots (exits all or part of their position early)
+   * A partial shoot locks in P&L on the closed stake and leaves the rest
+   * riding; omitting both fraction and amount closes everything.
+   */
+  async shoot(
+    playerId: string,
+    roundId: string,
+    size: { fraction?: number | undefined; amount?: Decimal | undefined } = {},
+    reason: ShootReason = "manual",
+  ): Promise<void> {
+    const position = this.getOpenPosition(playerId, roundId);
+    const round = this.gameState.currentRound!;
+
+    const closeAmount = this.resolveCloseAmount(position, size);
+    if (closeAmount.lt(position.remainingAmount)) {
+      if (round.settlementMode === "pool") {
+        throw new Error("Partial exits are not available in pool rounds");
+      }
+      await this.partialShoot(roundId, position, closeAmount);
+      return;
+    }
+
+    if (round.settlementMode === "pool") {
+      this.lockPoolShot(round, position, reason);
+      return;
+    }
+
+    // Mark as shot
+    position.didShoot = true;
+    position.shotAt = Date.now();
+
+    const exitPrice = round.currentPrice;
+    const pnl = position.currentPnl;
+    const exitPnl = pnl.minus(position.realizedPnl);
+    position.exitPrice = exitPrice;
+    const { payout, fees } = this.closeStake(
+      round,
+      position.remainingAmount,
+      exitPnl,
+      position,
+      position.shotAt,
+    );
+
+    let result: SettlementResult;
+    try {
+      result = await settlementService.settlePosition({
+        roundId,
+        playerId,
+        outcome: "shoot",
+        exitPrice,
+        pnl,
+        payout,
+        fees,
+        shotAt: new Date(position.shotAt),
+      });
+    } catch (error) {
+      // Nothing was written, so reopen the position and let the player retry
+      position.didShoot = false;
+      position.shotAt = null;
+      position.exitPrice = null;
+      throw error;
+    }
+
+    if (!result.applied) {
+      throw new Error("Position already settled");
+    }
+
+    position.rakeFees = position.rakeFees.plus(fees.rake);
+    position.holdingFees = position.holdingFees.plus(fees.holdingFee);
+
+    const newBalance = result.newBalance ?? ZERO;
+
+    logger.info(
+      `Player ${playerId} SHOT at $${exitPrice} (${reason}) - P&L: $${pnl.toFixed(2)}, Payout: $${payout.toFixed(2)}`,
+    );
+
+    this.emit("player:shoot", {
+      playerId,
+      roundId,
+      pair: round.pair,
+      exitPrice,
+      pnl: exitPnl,
+      payout,
+      closedAmount: position.remainingAmount,
+      remainingAmount: ZERO,
+      partial: false,
+      reason,
+      fees: { entryFee: position.entryFee, ...fees },
+      deferred: false,
+      newBalance,
     });
   }
 
   /**
-   * Player shoots (exits position early)
+   * Close a pool-round position without paying it yet
+   * Its P&L is locked at the current price and ranks it when the pool is
+   * split at round end.
    */
-  async shoot(playerId: string, roundId: string): Promise<void> {
+  private lockPoolShot(
+    round: RoundState,
+    position: PlayerPosition,
+    reason: ShootReason,
+  ): void {
+    position.didShoot = true;
+    position.shotAt = Date.now();
+    position.exitPrice = round.currentPrice;
+
+    logger.info(
+      `Player ${position.playerId} SHOT at $${position.exitPrice} (${reason}) - P&L locked at $${position.currentPnl.toFixed(2)}, paid from the pool at round end`,
+    );
+
+    this.emit("player:shoot", {
+      playerId: position.playerId,
+      roundId: round.id,
+      pair: round.pair,
+      exitPrice: position.exitPrice,
+      pnl: position.currentPnl,
+      payout: ZERO,
+      closedAmount: position.remainingAmount,
+      remainingAmount: ZERO,
+      partial: false,
+      reason,
+      fees: { entryFee: position.entryFee, rake: ZERO, holdingFee: ZERO },
+      deferred: true,
+    });
+  }
+
+  /**
+   * Attach, replace or cancel a player's take-profit and stop-loss
+   * Undefined leaves a level as it is; null cancels it.
+   */
+  setOrders(
+    playerId: string,
+    roundId: string,
+    changes: {
+      takeProfit?: OrderLevel | null | undefined;
+      stopLoss?: OrderLevel | null | undefined;
+    },
+  ): PositionOrders {
+    const position = this.getOpenPosition(playerId, roundId);
+    const round = this.gameState.currentRound!;
+
+    const orders: PositionOrders = { ...position.orders };
+    if (changes.takeProfit !== undefined) {
+      orders.takeProfit =
+        changes.takeProfit &&
+        this.validateOrder("take_profit", changes.takeProfit, round, position);
+    }
+    if (changes.stopLoss !== undefined) {
+      orders.stopLoss =
+        changes.stopLoss &&
+        this.validateOrder("stop_loss", changes.stopLoss, round, position);
+    }
+
+    position.orders = orders;
+
+    logger.info(
+      `Player ${playerId} orders - TP: ${this.describeOrder(orders.takeProfit)}, SL: ${this.describeOrder(orders.stopLoss)}`,
+    );
+
+    this.emit("player:orders_updated", {
+      playerId,
+      roundId,
+      pair: round.pair,
+      orders,
+    });
+
+    return orders;
+  }
+
+  /**
+   * Position a player can still act on in the current round
+   */
+  private getOpenPosition(playerId: string, roundId: string): PlayerPosition {
     if (this.gameState.phase !== "ROUND" || !this.gameState.currentRound) {
       throw new Error("No active round");
     }
@@ -580,6 +1740,10 @@ export class GameStateManager extends EventEmitter {
       throw new Error("Round ID mismatch");
     }
 
+    if (this.gameState.currentRound.endTime !== null) {
+      throw new Error("Round is ending");
+    }
+
     const position = this.gameState.currentRound.positions.get(playerId);
     if (!position) {
       throw new Error("Position not found");
@@ -593,76 +1757,383 @@ export class GameStateManager extends EventEmitter {
       throw new Error("Position liquidated");
     }
 
-    // Mark as shot
-    position.didShoot = true;
-    position.shotAt = Date.now();
+    return position;
+  }
 
-    const exitPrice = this.gameState.currentRound.currentPrice;
-    const pnl = position.currentPnl;
-    const payout = calculatePayout(position.betAmount, pnl, true, false);
+  /**
+   * Check an order level makes sense for the position right now
+   */
+  private validateOrder(
+    role: OrderRole,
+    order: OrderLevel,
+    round: RoundState,
+    position: PlayerPosition,
+  ): OrderLevel {
+    const label = role === "take_profit" ? "Take-profit" : "Stop-loss";
+    let level: OrderLevel;
+
+    if (order.kind === "price") {
+      if (!order.price.isFinite() || order.price.lte(0)) {
+        throw new Error(`${label} price must be positive`);
+      }
+      level = { kind: "price", price: toPrice(round.pair, order.price) };
 
-    // Update database
-    await prisma.position.updateMany({
-      where: {
-        roundId: roundId,
-        playerId: playerId,
-      },
-      data: {
-        didShoot: true,
-        shotAt: new Date(),
-        exitPrice,
-        pnl,
-      },
-    });
+      if (role === "stop_loss") {
+        const liquidationPrice = calculateLiquidationPrice(
+          round.pair,
+          position.positionType,
+          position.entryPrice,
+          position.leverage,
+        );
+        const pastLiquidation =
+          position.positionType === "LONG"
+            ? level.price.lte(liquidationPrice)
+            : level.price.gte(liquidationPrice);
+        if (pastLiquidation) {
+          throw new Error(
+            `Stop-loss must trigger before liquidation at $${liquidationPrice}`,
+          );
+        }
+      }
+    } else {
+      if (!order.pnlPercent.isFinite()) {
+        throw new Error(`${label} P&L % must be a number`);
+      }
+      level = { kind: "pnl_percent", pnlPercent: order.pnlPercent };
 
-    // Update player balance immediately
-    await prisma.player.update({
-      where: { id: playerId },
-      data: {
-        demoBalance: { increment: payout },
-        totalPnl: { increment: pnl },
-      },
+      if (role === "stop_loss" && level.pnlPercent.lte(-100)) {
+        throw new Error("Stop-loss must be above -100% (liquidation)");
+      }
+    }
+
+    const pnlPercentage = calculatePnLPercentage(
+      position.currentPnl,
+      position.betAmount,
+    );
+    if (
+      isOrderTriggered(
+        role,
+        level,
+        position.positionType,
+        round.currentPrice,
+        pnlPercentage,
+      )
+    ) {
+      throw new Error(`${label} would trigger immediately`);
+    }
+
+    return level;
+  }
+
+  /**
+   * Fire a take-profit or stop-loss the latest price reached
+   */
+  private checkOrders(round: RoundState, position: PlayerPosition): void {
+    const { takeProfit, stopLoss } = position.orders;
+    if (!takeProfit && !stopLoss) {
+      return;
+    }
+
+    const pnlPercentage = calculatePnLPercentage(
+      position.currentPnl,
+      position.betAmount,
+    );
+    const reached = (role: OrderRole, order: OrderLevel | null) =>
+      order !== null &&
+      isOrderTriggered(
+        role,
+        order,
+        position.positionType,
+        round.currentPrice,
+        pnlPercentage,
+      );
+
+    const triggered: OrderRole | null = reached("take_profit", takeProfit)
+      ? "take_profit"
+      : reached("stop_loss", stopLoss)
+        ? "stop_loss"
+        : null;
+    if (!triggered) {
+      return;
+    }
+
+    // Disarm first so later ticks can't fire it again
+    const orders = position.orders;
+    position.orders = { takeProfit: null, stopLoss: null };
+
+    logger.info(
+      `Player ${position.playerId} ${triggered} hit at $${round.currentPrice}`,
+    );
+
+    this.trackSettlement(
+      this.shoot(position.playerId, round.id, {}, triggered).catch(
+        (error: unknown) => {
+          // Re-arm so the next tick retries, unless the position closed
+          if (!position.didShoot && !position.liquidated) {
+            position.orders = orders;
+          }
+          throw error;
+        },
+      ),
+    );
+  }
+
+  /**
+   * Order level for logs
+   */
+  private describeOrder(order: OrderLevel | null): string {
+    if (!order) return "none";
+    return order.kind === "price"
+      ? `$${order.price}`
+      : `${order.pnlPercent}%`;
+  }
+
+  /**
+   * Close part of a position and pay it out, leaving the rest open
+   */
+  private async partialShoot(
+    roundId: string,
+    position: PlayerPosition,
+    closeAmount: Decimal,
+  ): Promise<void> {
+    const round = this.gameState.currentRound!;
+    const exitPrice = round.currentPrice;
+    const pnl = calculatePnL(
+      position.positionType,
+      position.entryPrice,
+      exitPrice,
+      closeAmount,
+      position.leverage,
+    );
+    const exitedAt = Date.now();
+    const { payout, fees } = this.closeStake(
+      round,
+      closeAmount,
+      pnl,
+      { didShoot: true, liquidated: false },
+      exitedAt,
+    );
+    const exit: PositionExitState = {
+      amount: closeAmount,
+      exitPrice,
+      pnl,
+      payout,
+      rake: fees.rake,
+      holdingFee: fees.holdingFee,
+      exitedAt,
+    };
+
+    // Taken before any await, so exits in flight together never share one,
+    // and not handed back if this one fails
+    const sequence = ++position.exitSequence;
+
+    // Apply in memory first so price updates and concurrent shoots see the
+    // reduced stake; endRound waits for the write before settling the rest
+    position.exits.push(exit);
+    position.remainingAmount = position.remainingAmount.minus(closeAmount);
+    position.realizedPnl = position.realizedPnl.plus(pnl);
+    position.realizedPayout = position.realizedPayout.plus(payout);
+    position.rakeFees = position.rakeFees.plus(fees.rake);
+    position.holdingFees = position.holdingFees.plus(fees.holdingFee);
+
+    const settlement = settlementService.recordPartialExit({
+      roundId,
+      playerId: position.playerId,
+      sequence,
+      amount: closeAmount,
+      exitPrice,
+      pnl,
+      payout,
+      fees,
+      exitedAt: new Date(exit.exitedAt),
     });
+    this.trackSettlement(settlement);
 
-    // Get updated balance
-    const player = await prisma.player.findUnique({ where: { id: playerId } });
-    const newBalance = player ? Number(player.demoBalance) : 0;
+    let result: SettlementResult;
+    try {
+      result = await settlement;
+    } catch (error) {
+      // Nothing was written, so give the stake back to the open position
+      position.exits.splice(position.exits.indexOf(exit), 1);
+      position.remainingAmount = position.remainingAmount.plus(closeAmount);
+      position.realizedPnl = position.realizedPnl.minus(pnl);
+      position.realizedPayout = position.realizedPayout.minus(payout);
+      position.rakeFees = position.rakeFees.minus(fees.rake);
+      position.holdingFees = position.holdingFees.minus(fees.holdingFee);
+      throw error;
+    }
 
     logger.info(
-      `Player ${playerId} SHOT at $${exitPrice} - P&L: $${pnl.toFixed(2)}, Payout: $${payout.toFixed(2)}`,
+      `Player ${position.playerId} closed $${closeAmount} at $${exitPrice} - P&L: $${pnl.toFixed(2)}, $${position.remainingAmount} still open`,
     );
 
     this.emit("player:shoot", {
-      playerId,
+      playerId: position.playerId,
       roundId,
+      pair: round.pair,
       exitPrice,
       pnl,
       payout,
-      newBalance,
+      closedAmount: closeAmount,
+      remainingAmount: position.remainingAmount,
+      partial: true,
+      reason: "manual",
+      fees: { entryFee: position.entryFee, ...fees },
+      deferred: false,
+      newBalance: result.newBalance ?? ZERO,
     });
   }
 
   /**
-   * Get player balance
+   * P&L against price a position ends the round with
    */
-  async getPlayerBalance(playerId: string): Promise<{
-    balance: number;
-    totalPnl: number;
-    gamesPlayed: number;
-  } | null> {
-    const player = await prisma.player.findUnique({ where: { id: playerId } });
-
-    if (!player) {
-      return null;
+  private getFinalPnl(position: PlayerPosition, finalPrice: Decimal): Decimal {
+    if (position.didShoot || position.liquidated) {
+      return position.currentPnl;
     }
 
+    return position.realizedPnl.plus(
+      calculatePnL(
+        position.positionType,
+        position.entryPrice,
+        finalPrice,
+        position.remainingAmount,
+        position.leverage,
+      ),
+    );
+  }
+
+  /**
+   * Split a pool round's stakes between its winners
+   */
+  private splitPool(
+    round: RoundState,
+    finalPrice: Decimal,
+  ): {
+    payouts: Map<string, Decimal>;
+    summary: { total: Decimal; winningStake: Decimal; losingStake: Decimal };
+  } {
+    const entries = Array.from(round.positions.values(), (position) => ({
+      playerId: position.playerId,
+      stake: position.betAmount,
+      pnl: this.getFinalPnl(position, finalPrice),
+    }));
+    const payouts = calculatePoolPayouts(entries);
+    const stakeWhere = (test: (pnl: Decimal) => boolean) =>
+      sumDecimals(entries.filter((e) => test(e.pnl)).map((e) => e.stake));
+
     return {
-      balance: Number(player.demoBalance),
-      totalPnl: Number(player.totalPnl),
-      gamesPlayed: player.gamesPlayed,
+      payouts: new Map(
+        entries.map((entry, index) => [entry.playerId, payouts[index]!]),
+      ),
+      summary: {
+        total: round.totalWagered,
+        winningStake: stakeWhere((pnl) => pnl.gt(0)),
+        losingStake: stakeWhere((pnl) => pnl.lt(0)),
+      },
     };
   }
 
+  /**
+   * Payout for closing a stake, net of profit rake and holding fee
+   */
+  private closeStake(
+    round: RoundState,
+    stake: Decimal,
+    pnl: Decimal,
+    state: { didShoot: boolean; liquidated: boolean },
+    closedAt: number,
+  ): { payout: Decimal; fees: ExitFees } {
+    const grossPayout = calculatePayout(
+      stake,
+      pnl,
+      state.didShoot,
+      state.liquidated,
+    );
+    return this.applyExitFees(round, stake, pnl, grossPayout, closedAt);
+  }
+
+  /**
+   * Take profit rake and holding fee out of a gross payout
+   */
+  private applyExitFees(
+    round: RoundState,
+    stake: Decimal,
+    pnl: Decimal,
+    grossPayout: Decimal,
+    closedAt: number,
+  ): { payout: Decimal; fees: ExitFees } {
+    const fees = calculateExitFees(
+      stake,
+      pnl,
+      grossPayout,
+      (closedAt - round.startTime) / 1000,
+    );
+
+    return {
+      payout: grossPayout.minus(fees.rake).minus(fees.holdingFee),
+      fees,
+    };
+  }
+
+  /**
+   * Work out how much stake a shoot closes
+   * A leftover smaller than the minimum bet is closed along with it.
+   */
+  private resolveCloseAmount(
+    position: PlayerPosition,
+    size: { fraction?: number | undefined; amount?: Decimal | undefined },
+  ): Decimal {
+    if (size.fraction !== undefined && size.amount !== undefined) {
+      throw new Error("Send either fraction or amount, not both");
+    }
+
+    let closeAmount = position.remainingAmount;
+
+    if (size.fraction !== undefined) {
+      if (
+        !Number.isFinite(size.fraction) ||
+        size.fraction <= 0 ||
+        size.fraction > 1
+      ) {
+        throw new Error("Fraction must be greater than 0 and at most 1");
+      }
+      closeAmount = toMoney(position.remainingAmount.times(size.fraction));
+    } else if (size.amount !== undefined) {
+      if (!size.amount.isFinite() || size.amount.lte(0)) {
+        throw new Error("Invalid close amount");
+      }
+      closeAmount = toMoney(size.amount);
+      if (closeAmount.gt(position.remainingAmount)) {
+        throw new Error(
+          `Cannot close $${closeAmount} - only $${position.remainingAmount} open`,
+        );
+      }
+    }
+
+    if (closeAmount.isZero()) {
+      throw new Error("Close amount is too small");
+    }
+
+    const leftover = position.remainingAmount.minus(closeAmount);
+    if (leftover.lt(CONFIG.PLAYER.MIN_BET_AMOUNT)) {
+      return position.remainingAmount;
+    }
+
+    return closeAmount;
+  }
+
+  /**
+   * Keep track of a background settlement until it completes
+   */
+  private trackSettlement(settlement: Promise<unknown>): void {
+    const tracked = settlement
+      .catch((error) => logger.error("Error settling position:", error))
+      .finally(() => this.pendingSettlements.delete(tracked));
+
+    this.pendingSettlements.add(tracked);
+  }
+
   /**
    * Get current game state
    */
@@ -670,6 +2141,60 @@ export class GameStateManager extends EventEmitter {
     return this.gameState;
   }
 
+  /**
+   * Anonymous tallies of the current round, for spectators
+   */
+  getRoundStats(): RoundStats | null {
+    const round = this.gameState.currentRound;
+    if (!round) return null;
+
+    const stats: RoundStats = {
+      playersInRound: round.positions.size,
+      openLongs: 0,
+      openShorts: 0,
+      openLongStake: ZERO,
+      openShortStake: ZERO,
+      liquidations: 0,
+      shots: 0,
+    };
+
+    for (const position of round.positions.values()) {
+      if (position.liquidated) stats.liquidations++;
+      if (position.didShoot) stats.shots++;
+
+      // Closed: liquidated, or shot out (pool shots keep their stake)
+      if (position.exitPrice !== null) continue;
+
+      if (position.positionType === "LONG") {
+        stats.openLongs++;
+        stats.openLongStake = stats.openLongStake.plus(position.remainingAmount);
+      } else {
+        stats.openShorts++;
+        stats.openShortStake = stats.openShortStake.plus(
+          position.remainingAmount,
+        );
+      }
+    }
+
+    return stats;
+  }
+
+  /**
+   * Player's lobby entry, if they're waiting in this lobby
+   */
+  getLobbyPlayer(playerId: string): LobbyPlayer | undefined {
+    return this.gameState.phase === "LOBBY"
+      ? this.lobbyPlayers.get(playerId)
+      : undefined;
+  }
+
+  /**
+   * Number of players waiting in the lobby
+   */
+  getLobbyPlayerCount(): number {
+    return this.lobbyPlayers.size;
+  }
+
   /**
    * Get current price for a pair
    */
@@ -680,7 +2205,7 @@ export class GameStateManager extends EventEmitter {
         reject(new Error("Timeout getting current price"));
       }, 5000);
 
-      const unsubscribe = priceFeedClient.subscribeToPair(pair, (priceData) => {
+      const unsubscribe = tickValidator.subscribeToPair(pair, (priceData) => {
         clearTimeout(timeout);
         unsubscribe();
         resolve(priceData);
@@ -691,11 +2216,12 @@ export class GameStateManager extends EventEmitter {
   close(): void {
     if (this.lobbyTimer) clearTimeout(this.lobbyTimer);
     if (this.roundTimer) clearTimeout(this.roundTimer);
+    if (this.lobbyUpdateInterval) clearInterval(this.lobbyUpdateInterval);
     if (this.priceUnsubscribe) this.priceUnsubscribe();
+    if (this.staleCheckInterval) clearInterval(this.staleCheckInterval);
+    for (const unsubscribe of this.pairWatchers) unsubscribe();
 
     this.removeAllListeners();
-    logger.info("Game State Manager closed");
+    logger.info(`Table ${this.table.id} closed`);
   }
 }
-
-export const gameStateManager = new GameStateManager();
@@ -0,0 +1,313 @@
+import { randomUUID } from 'crypto';
+import { type LedgerEntry, type Player, type Position, type Prisma } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { type Decimal, ZERO, sumDecimals, toDecimal, toMoney, formatMoney } from '../utils/decimal.js';
+import { type LedgerEntryType, type LedgerEntryView } from '../types.js';
+import { prisma } from './prisma.js';
+
+export const PLAYER_ACCOUNT = 'player';
+export const HOUSE_ACCOUNT = 'house';
+
+export interface LedgerPosting {
+  playerId: string;
+  type: LedgerEntryType;
+  amount: Decimal; // Signed change to the player's balance
+  roundId?: string;
+  positionId?: string;
+  note?: string;
+}
+
+export interface LedgerPage {
+  entries: LedgerEntryView[];
+  nextCursor: string | null;
+}
+
+export interface RoundRevenue {
+  roundId: string;
+  status: string;
+  entryFees: Decimal;
+  rake: Decimal;
+  holdingFees: Decimal;
+  houseNet: Decimal; // Everything the house won or lost on the round, fees included
+}
+
+export interface BalanceMismatch {
+  playerId: string;
+  balance: Decimal;
+  ledgerBalance: Decimal;
+  difference: Decimal;
+}
+
+export interface ReconciliationReport {
+  playersChecked: number;
+  mismatches: BalanceMismatch[];
+  ledgerImbalance: Decimal; // Sum of every entry; double-entry keeps this at 0
+  backfilled: number;
+}
+
+/**
+ * Double-entry ledger behind every demoBalance change
+ *
+ * Each posting moves money between the player's account and the house
+ * account: one entry on each side, sharing a transaction id and summing to
+ * zero. demoBalance is only ever changed through post(), so it always equals
+ * the sum of the player's entries.
+ */
+export class LedgerService {
+  private readonly DEFAULT_PAGE_SIZE = 50;
+  private readonly MAX_PAGE_SIZE = 200;
+
+  /**
+   * Apply a balance change and record both sides of it
+   * Runs inside the caller's transaction so it commits with the change
+   * that caused it. Returns the player's new balance.
+   */
+  async post(tx: Prisma.TransactionClient, posting: LedgerPosting): Promise<Decimal> {
+    const amount = toMoney(posting.amount);
+    const player = await tx.player.update({
+      where: { id: posting.playerId },
+      data: {
+        demoBalance: { increment: amount },
+      },
+    });
+
+    const transactionId = randomUUID();
+    const shared = {
+      transactionId,
+      playerId: posting.playerId,
+      type: posting.type,
+      roundId: posting.roundId ?? null,
+      positionId: posting.positionId ?? null,
+      note: posting.note ?? null,
+    };
+
+    await tx.ledgerEntry.createMany({
+      data: [
+        {
+          ...shared,
+          account: PLAYER_ACCOUNT,
+          amount,
+          balanceAfter: player.demoBalance,
+        },
+        {
+          ...shared,
+          account: HOUSE_ACCOUNT,
+          amount: amount.neg(),
+        },
+      ],
+    });
+
+    return toDecimal(player.demoBalance);
+  }
+
+  /**
+   * Create a player funded with their opening demo balance
+   */
+  async openAccount(
+    playerId: string,
+    username: string,
+    openingBalance: Decimal,
+    walletAddress: string | null = null
+  ): Promise<Player> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.player.create({
+        data: {
+          id: playerId,
+          username,
+          walletAddress,
+          demoBalance: 0,
+        },
+      });
+
+      await this.post(tx, {
+        playerId,
+        type: 'OPENING_BALANCE',
+        amount: openingBalance,
+      });
+
+      return tx.player.findUniqueOrThrow({ where: { id: playerId } });
+    });
+  }
+
+  /**
+   * Manual balance correction, recorded with a reason
+   */
+  async adjust(playerId: string, amount: Decimal, note: string): Promise<Decimal> {
+    return prisma.$transaction((tx: Prisma.TransactionClient) =>
+      this.post(tx, {
+        playerId,
+        type: 'ADMIN_ADJUSTMENT',
+        amount,
+        note,
+      })
+    );
+  }
+
+  /**
+   * Page through a player's ledger, newest first
+   */
+  async getEntries(
+    playerId: string,
+    options: { cursor?: string | undefined; limit?: number | undefined } = {}
+  ): Promise<LedgerPage> {
+    const limit = Math.min(
+      Math.max(1, Math.floor(options.limit ?? this.DEFAULT_PAGE_SIZE)),
+      this.MAX_PAGE_SIZE
+    );
+
+    const rows: LedgerEntry[] = await prisma.ledgerEntry.findMany({
+      where: { playerId, account: PLAYER_ACCOUNT },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+    });
+
+    const page = rows.slice(0, limit);
+
+    return {
+      entries: page.map((row) => ({
+        id: row.id,
+        type: row.type as LedgerEntryType,
+        amount: formatMoney(toDecimal(row.amount)),
+        // Player-side entries always carry the balance they left
+        balanceAfter: formatMoney(toDecimal(row.balanceAfter ?? ZERO)),
+        roundId: row.roundId,
+        positionId: row.positionId,
+        note: row.note,
+        createdAt: row.createdAt.getTime(),
+      })),
+      nextCursor: rows.length > limit ? (page[page.length - 1]?.id ?? null) : null,
+    };
+  }
+
+  /**
+   * Fees the house collected on a round and its net result from it
+   * Refunded and admin-reversed positions owe no fees. Returns null if the
+   * round doesn't exist.
+   */
+  async getRoundRevenue(roundId: string): Promise<RoundRevenue | null> {
+    const round: Prisma.RoundGetPayload<{ include: { positions: true } }> | null =
+      await prisma.round.findUnique({
+        where: { id: roundId },
+        include: { positions: true },
+      });
+
+    if (!round) {
+      return null;
+    }
+
+    const houseEntries: LedgerEntry[] = await prisma.ledgerEntry.findMany({
+      where: { roundId, account: HOUSE_ACCOUNT },
+    });
+
+    const positions: Position[] = round.positions.filter(
+      (p) => p.reversedAt === null && p.outcome !== 'refund'
+    );
+    const sumOf = (field: 'entryFee' | 'rakeFee' | 'holdingFee') =>
+      sumDecimals(positions.map((p) => toDecimal(p[field])));
+
+    return {
+      roundId,
+      status: round.status,
+      entryFees: sumOf('entryFee'),
+      rake: sumOf('rakeFee'),
+      holdingFees: sumOf('holdingFee'),
+      houseNet: sumDecimals(houseEntries.map((e) => toDecimal(e.amount))),
+    };
+  }
+
+  /**
+   * Prove every demoBalance equals the sum of its ledger entries
+   *
+   * Players created before the ledger existed have no entries at all; with
+   * backfillLegacy they get an opening entry for their current balance.
+   */
+  async reconcile(options: { backfillLegacy?: boolean } = {}): Promise<ReconciliationReport> {
+    const [players, sums, total] = await Promise.all([
+      prisma.player.findMany({ select: { id: true, demoBalance: true } }),
+      prisma.ledgerEntry.groupBy({
+        by: ['playerId'],
+        where: { account: PLAYER_ACCOUNT },
+        _sum: { amount: true },
+      }),
+      prisma.ledgerEntry.aggregate({ _sum: { amount: true } }),
+    ]);
+
+    const ledgerBalances = new Map<string, Decimal>(
+      sums.map((row: any) => [row.playerId, toDecimal(row._sum.amount ?? 0)])
+    );
+
+    const report: ReconciliationReport = {
+      playersChecked: players.length,
+      mismatches: [],
+      ledgerImbalance: toDecimal(total._sum.amount ?? 0),
+      backfilled: 0,
+    };
+
+    for (const player of players) {
+      const balance = toDecimal(player.demoBalance);
+      const ledgerBalance = ledgerBalances.get(player.id);
+
+      if (ledgerBalance === undefined && options.backfillLegacy) {
+        await this.backfillOpeningBalance(player.id, balance);
+        report.backfilled++;
+        continue;
+      }
+
+      // Every posting is rounded to schema precision, so this is exact
+      const difference = balance.minus(ledgerBalance ?? ZERO);
+      if (!difference.isZero()) {
+        report.mismatches.push({
+          playerId: player.id,
+          balance,
+          ledgerBalance: ledgerBalance ?? ZERO,
+          difference,
+        });
+      }
+    }
+
+    if (report.mismatches.length > 0 || !report.ledgerImbalance.isZero()) {
+      logger.error(
+        `Ledger reconciliation failed - ${report.mismatches.length} mismatched balance(s), ` +
+          `ledger imbalance ${report.ledgerImbalance}`
+      );
+    } else {
+      logger.info(`✅ Ledger reconciled for ${report.playersChecked} player(s)`);
+    }
+
+    return report;
+  }
+
+  /**
+   * Record an existing balance without changing it
+   */
+  private async backfillOpeningBalance(playerId: string, balance: Decimal): Promise<void> {
+    const transactionId = randomUUID();
+
+    await prisma.ledgerEntry.createMany({
+      data: [
+        {
+          transactionId,
+          account: PLAYER_ACCOUNT,
+          playerId,
+          type: 'OPENING_BALANCE',
+          amount: balance,
+          balanceAfter: balance,
+          note: 'Backfilled from pre-ledger balance',
+        },
+        {
+          transactionId,
+          account: HOUSE_ACCOUNT,
+          playerId,
+          type: 'OPENING_BALANCE',
+          amount: balance.neg(),
+          note: 'Backfilled from pre-ledger balance',
+        },
+      ],
+    });
+
+    logger.info(`Backfilled opening ledger balance $${balance} for player ${playerId}`);
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from '../utils/decimal.js';
+
+// Rounds come from a stub instead of the database
+const db = vi.hoisted(() => ({
+  rounds: [] as any[],
+  roundUpdates: [] as any[],
+  settlements: [] as any[],
+}));
+vi.mock('./prisma.js', () => ({
+  prisma: {
+    round: {
+      findMany: async () => db.rounds,
+      update: async (args: any) => db.roundUpdates.push(args),
+    },
+    lobbyEntry: { deleteMany: async () => ({ count: 0 }) },
+  },
+}));
+vi.mock('./settlementService.js', () => ({
+  settlementService: {
+    settlePosition: async (request: any) => db.settlements.push(request),
+  },
+}));
+
+const { recoveryService } = await import('./recoveryService.js');
+
+const d = (value: string) => new Decimal(value);
+
+function position(playerId: string, settled: Record<string, unknown> = {}) {
+  return {
+    id: `position-${playerId}`,
+    roundId: 'round-1',
+    playerId,
+    positionType: 'LONG',
+    entryAmount: d('10'),
+    entryFee: d('0.1'),
+    leverage: 100,
+    exitPrice: null,
+    pnl: null,
+    didShoot: false,
+    liquidated: false,
+    settlementKey: null,
+    outcome: null,
+    exits: [],
+    ...settled,
+  };
+}
+
+function round(positions: any[], settlementMode = 'fixed') {
+  return {
+    id: 'round-1',
+    pair: 'BTC/USD',
+    entryPrice: d('100000'),
+    leverage: 100,
+    durationSeconds: d('30'),
+    settlementMode,
+    positions,
+  };
+}
+
+describe('RecoveryService', () => {
+  beforeEach(() => {
+    db.rounds = [];
+    db.roundUpdates = [];
+    db.settlements = [];
+  });
+
+  it('finishes a void that failed halfway', async () => {
+    db.rounds = [
+      round([
+        position('refunded', {
+          outcome: 'refund',
+          settlementKey: 'round-1:refunded',
+          pnl: d('0'),
+          exitPrice: d('100000'),
+        }),
+        position('open'),
+        position('shot', {
+          outcome: 'shoot',
+          settlementKey: 'round-1:shot',
+          didShoot: true,
+          pnl: d('2'),
+          exitPrice: d('100200'),
+        }),
+      ]),
+    ];
+
+    const summary = await recoveryService.recover();
+
+    expect(db.settlements).toHaveLength(1);
+    expect(db.settlements[0].playerId).toBe('open');
+    expect(db.settlements[0].outcome).toBe('refund');
+    expect(db.settlements[0].payout.toFixed()).toBe('10.1');
+    expect(db.roundUpdates[0].data.status).toBe('voided');
+    expect(summary.roundsVoided).toBe(1);
+    expect(summary.roundsSettled).toBe(0);
+  });
+
+  it('settles the rest at the expiry price once settlement had begun', async () => {
+    db.rounds = [
+      round([
+        position('expired', {
+          outcome: 'expired',
+          settlementKey: 'round-1:expired',
+          pnl: d('1'),
+          exitPrice: d('100100'),
+        }),
+        position('open'),
+      ]),
+    ];
+
+    const summary = await recoveryService.recover();
+
+    expect(db.settlements).toHaveLength(1);
+    expect(db.settlements[0].outcome).toBe('expired');
+    expect(db.settlements[0].exitPrice.toFixed()).toBe('100100');
+    expect(db.roundUpdates[0].data.status).toBe('completed');
+    expect(summary.roundsSettled).toBe(1);
+  });
+
+  it('pays the rest of a pool split from what the pool has left', async () => {
+    // At 100500 both LONGs make 5 and the SHORT loses its stake, so each
+    // LONG's share is 15 of the 30 pool; the first was already paid
+    db.rounds = [
+      round(
+        [
+          position('paid', {
+            outcome: 'expired',
+            settlementKey: 'round-1:paid',
+            pnl: d('5'),
+            exitPrice: d('100500'),
+          }),
+          { ...position('loser'), positionType: 'SHORT' },
+          position('winner'),
+        ],
+        'pool'
+      ),
+    ];
+
+    const summary = await recoveryService.recover();
+    const settled = new Map(db.settlements.map((s) => [s.playerId, s]));
+    const gross = (s: any) => s.payout.plus(s.fees.rake).plus(s.fees.holdingFee);
+
+    expect(db.settlements).toHaveLength(2);
+    expect(gross(settled.get('winner')).toFixed()).toBe('15');
+    expect(settled.get('winner').pnl.toFixed()).toBe('5');
+    expect(settled.get('loser').payout.isZero()).toBe(true);
+    expect(db.settlements.some((s) => s.outcome === 'refund')).toBe(false);
+    expect(db.roundUpdates[0].data.status).toBe('completed');
+    expect(summary.roundsSettled).toBe(1);
+  });
+});
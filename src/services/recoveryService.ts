@@ -0,0 +1,366 @@
+import { type Prisma } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { type PositionSide } from '../types.js';
+import {
+  calculatePnL,
+  calculatePayout,
+  calculatePoolPayouts,
+  calculateExitFees,
+  isLiquidated,
+} from '../utils/calculation.js';
+import { Decimal, MONEY_DECIMALS, ZERO, sumDecimals, toDecimal } from '../utils/decimal.js';
+import { prisma } from './prisma.js';
+import { settlementService } from './settlementService.js';
+
+type RecoveredRound = Prisma.RoundGetPayload<{
+  include: { positions: { include: { exits: true } } };
+}>;
+type RecoveredPosition = RecoveredRound['positions'][number];
+
+export interface RecoverySummary {
+  roundsSettled: number;
+  roundsVoided: number;
+  positionsSettled: number;
+  positionsRefunded: number;
+  lobbyEntriesCleared: number;
+}
+
+/**
+ * Reconciles state left behind by a crash or deploy
+ *
+ * Rounds still marked "active" on boot were interrupted mid-flight: their
+ * bets were already debited in startRound but some positions never got paid.
+ * A void that had begun refunding is finished; if settlement had begun, the
+ * remaining positions are settled at the same final price; a round with no
+ * open positions left is simply completed; otherwise the round is voided
+ * and open stakes are refunded.
+ * Pool rounds are refunded unless their split had begun: their shots were
+ * only held in memory. Once some positions were paid from the pool, the
+ * rest are paid from what it has left.
+ * Settlement is idempotent, so running this twice never pays twice.
+ */
+export class RecoveryService {
+  async recover(): Promise<RecoverySummary> {
+    logger.info('Reconciling state from previous run...');
+
+    const summary: RecoverySummary = {
+      roundsSettled: 0,
+      roundsVoided: 0,
+      positionsSettled: 0,
+      positionsRefunded: 0,
+      lobbyEntriesCleared: 0,
+    };
+
+    const orphanedRounds: RecoveredRound[] = await prisma.round.findMany({
+      where: { status: 'active' },
+      include: { positions: { include: { exits: true } } },
+    });
+
+    for (const round of orphanedRounds) {
+      try {
+        await this.recoverRound(round, summary);
+      } catch (error) {
+        logger.error(`Failed to recover round ${round.id}:`, error);
+      }
+    }
+
+    summary.lobbyEntriesCleared = await this.clearLobbyEntries();
+
+    logger.info(
+      `✅ Recovery complete - settled ${summary.roundsSettled} round(s), ` +
+        `voided ${summary.roundsVoided} round(s), ` +
+        `refunded ${summary.positionsRefunded} position(s), ` +
+        `cleared ${summary.lobbyEntriesCleared} lobby entr${summary.lobbyEntriesCleared === 1 ? 'y' : 'ies'}`
+    );
+
+    return summary;
+  }
+
+  /**
+   * Settle or void a single orphaned round
+   */
+  private async recoverRound(round: RecoveredRound, summary: RecoverySummary): Promise<void> {
+    const positions = round.positions;
+
+    // Positions already closed by shoot/liquidation/settlement have a P&L
+    // (rows settled before settlement keys existed only have the P&L)
+    const openPositions = positions.filter((p) => p.settlementKey === null && p.pnl === null);
+
+    // Refunds only come from a void, so refund the rest the same way
+    if (positions.some((p) => p.outcome === 'refund')) {
+      await this.voidOpenPositions(round, openPositions, 'Void interrupted by a server restart', summary);
+      return;
+    }
+
+    // A position settled on expiry carries the round's final price
+    const expiryPrice = positions.find((p) => p.outcome === 'expired')?.exitPrice ?? null;
+    const finalPrice = expiryPrice !== null ? toDecimal(expiryPrice) : null;
+
+    // Some of the pool was paid out already, so refunding the rest would
+    // pay the losers' stakes twice
+    if (round.settlementMode === 'pool' && positions.some((p) => p.outcome !== null)) {
+      await this.settlePool(round, openPositions, finalPrice, summary);
+      return;
+    }
+
+    const recoveredPrice = round.settlementMode !== 'pool' ? finalPrice : null;
+
+    if (recoveredPrice !== null) {
+      for (const position of openPositions) {
+        // Positions from before per-position leverage use the round's
+        const leverage: number = position.leverage ?? round.leverage;
+        await this.settleAtPrice(round, position, recoveredPrice, leverage);
+        summary.positionsSettled++;
+      }
+
+      await prisma.round.update({
+        where: { id: round.id },
+        data: {
+          exitPrice: recoveredPrice,
+          endedAt: new Date(),
+          status: 'completed',
+        },
+      });
+
+      summary.roundsSettled++;
+      logger.warn(
+        `Recovered round ${round.id} (${round.pair}) - settled ${openPositions.length} position(s) at $${recoveredPrice}`
+      );
+      return;
+    }
+
+    // Every position was settled before the crash; only the round's status
+    // never got written (a round that never opened one is still voided)
+    if (positions.length > 0 && openPositions.length === 0) {
+      await prisma.round.update({
+        where: { id: round.id },
+        data: {
+          endedAt: new Date(),
+          status: 'completed',
+        },
+      });
+
+      summary.roundsSettled++;
+      logger.warn(`Recovered round ${round.id} (${round.pair}) - all positions had already settled`);
+      return;
+    }
+
+    await this.voidOpenPositions(round, openPositions, 'Interrupted by a server restart', summary);
+  }
+
+  /**
+   * Pay a pool round's unsettled positions their share of the split
+   *
+   * Shares are worked out over every position, as endRound did. Positions
+   * that hadn't settled are taken as held to expiry (or break-even if no
+   * final price survived), and what they're paid is scaled down if it
+   * would take more than the pool has left after the payouts already made.
+   */
+  private async settlePool(
+    round: RecoveredRound,
+    openPositions: RecoveredPosition[],
+    finalPrice: Decimal | null,
+    summary: RecoverySummary
+  ): Promise<void> {
+    const open = new Set(openPositions.map((p) => p.id));
+    const entries = round.positions.map((position) => {
+      const stake = toDecimal(position.entryAmount);
+      const exitPrice = open.has(position.id)
+        ? finalPrice
+        : position.exitPrice !== null
+          ? toDecimal(position.exitPrice)
+          : null;
+
+      return { position, stake, ...this.getPoolPnl(round, position, stake, exitPrice) };
+    });
+    const shares = calculatePoolPayouts(entries);
+
+    // A settled pool position's P&L is its payout less its stake
+    const paid = sumDecimals(
+      round.positions
+        .filter((p) => !open.has(p.id))
+        .map((p) => toDecimal(p.entryAmount).plus(toDecimal(p.pnl ?? 0)))
+    );
+    const left = Decimal.max(ZERO, sumDecimals(entries.map((e) => e.stake)).minus(paid));
+    const owed = sumDecimals(shares.filter((_, index) => open.has(entries[index]!.position.id)));
+    const scale = owed.gt(left) ? left.div(owed) : null;
+
+    for (const [index, entry] of entries.entries()) {
+      if (!open.has(entry.position.id)) continue;
+
+      const share = shares[index]!;
+      const grossPayout = scale
+        ? share.times(scale).toDecimalPlaces(MONEY_DECIMALS, Decimal.ROUND_DOWN)
+        : share;
+      const pnl = grossPayout.minus(entry.stake);
+      const fees = calculateExitFees(
+        entry.stake,
+        pnl,
+        grossPayout,
+        Number(round.durationSeconds ?? 0)
+      );
+
+      await settlementService.settlePosition({
+        roundId: round.id,
+        playerId: entry.position.playerId,
+        outcome: entry.liquidated ? 'liquidated' : 'expired',
+        exitPrice: finalPrice ?? toDecimal(round.entryPrice),
+        pnl,
+        payout: grossPayout.minus(fees.rake).minus(fees.holdingFee),
+        fees,
+      });
+      summary.positionsSettled++;
+    }
+
+    await prisma.round.update({
+      where: { id: round.id },
+      data: {
+        ...(finalPrice !== null && { exitPrice: finalPrice }),
+        endedAt: new Date(),
+        status: 'completed',
+      },
+    });
+
+    summary.roundsSettled++;
+    logger.warn(
+      `Recovered pool round ${round.id} (${round.pair}) - paid ${openPositions.length} position(s) from the $${left} left in the pool`
+    );
+  }
+
+  /**
+   * Price P&L that ranks a position in the pool split
+   */
+  private getPoolPnl(
+    round: RecoveredRound,
+    position: RecoveredPosition,
+    stake: Decimal,
+    exitPrice: Decimal | null
+  ): { pnl: Decimal; liquidated: boolean } {
+    if (exitPrice === null) {
+      return { pnl: ZERO, liquidated: false };
+    }
+
+    const entryPrice = toDecimal(round.entryPrice);
+    const side = position.positionType as PositionSide;
+    const leverage: number = position.leverage ?? round.leverage;
+    const liquidated =
+      position.liquidated || isLiquidated(round.pair, side, entryPrice, exitPrice, leverage);
+
+    return {
+      pnl: liquidated ? stake.neg() : calculatePnL(side, entryPrice, exitPrice, stake, leverage),
+      liquidated,
+    };
+  }
+
+  /**
+   * Refund every open position and mark the round voided
+   */
+  private async voidOpenPositions(
+    round: RecoveredRound,
+    openPositions: RecoveredPosition[],
+    voidReason: string,
+    summary: RecoverySummary
+  ): Promise<void> {
+    const entryPrice = toDecimal(round.entryPrice);
+
+    for (const position of openPositions) {
+      await this.refund(position, entryPrice);
+      summary.positionsRefunded++;
+    }
+
+    await prisma.round.update({
+      where: { id: round.id },
+      data: {
+        endedAt: new Date(),
+        status: 'voided',
+        voidReason,
+      },
+    });
+
+    summary.roundsVoided++;
+    logger.warn(
+      `Voided orphaned round ${round.id} (${round.pair}) - refunded ${openPositions.length} position(s)`
+    );
+  }
+
+  /**
+   * Settle an open position the same way endRound would have
+   */
+  private async settleAtPrice(
+    round: RecoveredRound,
+    position: RecoveredPosition,
+    finalPrice: Decimal,
+    leverage: number
+  ): Promise<void> {
+    const entryPrice = toDecimal(round.entryPrice);
+    const { remaining, realizedPnl } = this.getOpenStake(position);
+    const side = position.positionType as PositionSide;
+    const liquidated = isLiquidated(round.pair, side, entryPrice, finalPrice, leverage);
+    const remainingPnl = liquidated
+      ? remaining.neg()
+      : calculatePnL(side, entryPrice, finalPrice, remaining, leverage);
+    const grossPayout = calculatePayout(remaining, remainingPnl, false, liquidated);
+
+    // Held to expiry, so the holding fee runs for the whole round
+    const fees = calculateExitFees(
+      remaining,
+      remainingPnl,
+      grossPayout,
+      Number(round.durationSeconds ?? 0)
+    );
+    const payout = grossPayout.minus(fees.rake).minus(fees.holdingFee);
+
+    await settlementService.settlePosition({
+      roundId: position.roundId,
+      playerId: position.playerId,
+      outcome: liquidated ? 'liquidated' : 'expired',
+      exitPrice: finalPrice,
+      pnl: realizedPnl.plus(remainingPnl),
+      payout,
+      fees,
+    });
+  }
+
+  /**
+   * Return the stake still open on a position, and its entry fee
+   */
+  private async refund(position: RecoveredPosition, entryPrice: Decimal): Promise<void> {
+    const { remaining, realizedPnl } = this.getOpenStake(position);
+    const refund = remaining.plus(toDecimal(position.entryFee ?? 0));
+
+    await settlementService.settlePosition({
+      roundId: position.roundId,
+      playerId: position.playerId,
+      outcome: 'refund',
+      exitPrice: entryPrice,
+      pnl: realizedPnl,
+      payout: refund,
+    });
+
+    logger.info(`Refunded $${refund} to player ${position.playerId}`);
+  }
+
+  /**
+   * Stake left after partial exits, and the P&L those exits locked in
+   */
+  private getOpenStake(position: RecoveredPosition): { remaining: Decimal; realizedPnl: Decimal } {
+    const exits = position.exits;
+    const closed = sumDecimals(exits.map((exit) => toDecimal(exit.amount)));
+
+    return {
+      remaining: toDecimal(position.entryAmount).minus(closed),
+      realizedPnl: sumDecimals(exits.map((exit) => toDecimal(exit.pnl))),
+    };
+  }
+
+  /**
+   * Lobby entries belong to sockets that no longer exist, so drop them.
+   * Bets are only debited at round start, so no balance is affected.
+   */
+  private async clearLobbyEntries(): Promise<number> {
+    const result = await prisma.lobbyEntry.deleteMany({});
+    return result.count;
+  }
+}
+
+export const recoveryService = new RecoveryService();
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from '../utils/decimal.js';
+import { type PositionSide } from '../types.js';
+import { riskEngine } from './riskEngine.js';
+
+const bet = (playerId: string, amount: string, side: PositionSide, leverage = 500) => ({
+  playerId,
+  betAmount: new Decimal(amount),
+  leverage,
+  side,
+});
+
+describe('scaleBets', () => {
+  it('leaves bets that fit the limits alone', () => {
+    const result = riskEngine.scaleBets([bet('a', '100', 'LONG'), bet('b', '100', 'SHORT')], 1);
+
+    expect(result.scaled.size).toBe(0);
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('trims the heavier side to fit net exposure', () => {
+    // 1,000,500 of LONG exposure against a 1,000,000 net limit
+    const result = riskEngine.scaleBets(
+      [bet('a', '1000', 'LONG'), bet('b', '1000', 'LONG'), bet('c', '1', 'LONG')],
+      0.01
+    );
+
+    expect(result.scaled.get('a')?.toFixed()).toBe('999.5');
+    expect(result.scaled.get('b')?.toFixed()).toBe('999.5');
+    expect(result.scaled.get('c')?.toFixed()).toBe('0.99');
+    expect(result.dropped).toEqual([]);
+  });
+
+  it('drops bets that would shrink below the table minimum', () => {
+    const result = riskEngine.scaleBets(
+      [bet('a', '1000', 'LONG'), bet('b', '1000', 'LONG'), bet('c', '1', 'LONG')],
+      1
+    );
+
+    expect(result.dropped).toEqual(['c']);
+    expect(result.scaled.has('c')).toBe(false);
+    for (const amount of result.scaled.values()) {
+      expect(amount.gte(1)).toBe(true);
+    }
+  });
+
+  it('never returns a zero bet', () => {
+    const result = riskEngine.scaleBets(
+      [bet('a', '1000', 'LONG'), bet('b', '1000', 'LONG'), bet('c', '0.01', 'LONG')],
+      0.01
+    );
+
+    expect(result.dropped).toEqual(['c']);
+    expect(Array.from(result.scaled.values()).some((amount) => amount.isZero())).toBe(false);
+  });
+
+  it('drops everyone when no bet can stay above the minimum', () => {
+    const result = riskEngine.scaleBets(
+      [bet('a', '1000', 'LONG'), bet('b', '1000', 'LONG'), bet('c', '1000', 'LONG')],
+      1000
+    );
+
+    expect(result.dropped.sort()).toEqual(['a', 'b', 'c']);
+    expect(result.scaled.size).toBe(0);
+  });
+});
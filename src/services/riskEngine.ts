@@ -0,0 +1,154 @@
+import { CONFIG } from '../config.js';
+import { GameError } from '../utils/errors.js';
+import { Decimal, ZERO, sumDecimals, toMoney } from '../utils/decimal.js';
+import { type PositionSide } from '../types.js';
+
+export interface ScaledBets {
+  scaled: Map<string, Decimal>; // New amount for each bet that changed
+  dropped: string[]; // Players whose bet would fall below the table minimum
+}
+
+export interface RiskBet {
+  playerId: string;
+  betAmount: Decimal;
+  leverage: number;
+  side: PositionSide | null; // Unknown until assignment in random rounds
+}
+
+/**
+ * House limits on bets and on what a round can put at risk
+ *
+ * Exposure is stake × leverage, what a position gains or loses on a 100%
+ * move. Joins that break a limit are rejected with a specific code; at round
+ * start, once leverage is capped and sides are known, bets are scaled down
+ * until the round fits.
+ */
+export class RiskEngine {
+  /**
+   * Reject a bet above the per-player caps
+   */
+  checkStake(
+    betAmount: Decimal,
+    balance: Decimal,
+    maxBet: number = CONFIG.RISK.MAX_BET_AMOUNT
+  ): void {
+    if (betAmount.gt(maxBet)) {
+      throw new GameError(`Maximum bet is $${maxBet}`, 'BET_ABOVE_MAX');
+    }
+
+    const balanceCap = toMoney(balance.times(CONFIG.RISK.MAX_BET_BALANCE_RATIO));
+    if (betAmount.gt(balanceCap)) {
+      throw new GameError(
+        `Bets are limited to ${CONFIG.RISK.MAX_BET_BALANCE_RATIO * 100}% of your balance ($${balanceCap.toFixed(2)})`,
+        'BET_ABOVE_BALANCE_SHARE'
+      );
+    }
+  }
+
+  /**
+   * Reject a bet that would push the round past the house's exposure limits
+   * `others` is the rest of the lobby, without this player's current bet.
+   */
+  checkExposure(bet: RiskBet, others: RiskBet[]): void {
+    const othersExposure = this.getExposure(others);
+    if (othersExposure.plus(this.getExposure([bet])).gt(CONFIG.RISK.MAX_ROUND_EXPOSURE)) {
+      const room = Decimal.max(ZERO, new Decimal(CONFIG.RISK.MAX_ROUND_EXPOSURE).minus(othersExposure));
+      throw new GameError(
+        `Round exposure limit reached - at ${bet.leverage}X you can bet at most $${this.roundDown(room.div(bet.leverage)).toFixed(2)}`,
+        'ROUND_EXPOSURE_LIMIT'
+      );
+    }
+
+    // Bets that shrink the imbalance are always welcome
+    if (bet.side !== null) {
+      const before = this.getNetExposure(others).abs();
+      const after = this.getNetExposure([...others, bet]).abs();
+      if (after.gt(CONFIG.RISK.MAX_NET_EXPOSURE) && after.gt(before)) {
+        throw new GameError(
+          `Too much is riding on ${bet.side} - bet less or take the other side`,
+          'SIDE_IMBALANCE_LIMIT'
+        );
+      }
+    }
+  }
+
+  /**
+   * Scale bets down to fit the house limits, once sides are assigned
+   * The heavier side is trimmed until net exposure fits, then every bet
+   * shrinks evenly if the round is still too big. A bet that would shrink
+   * below minBet is dropped instead, and the rest are fitted again, since
+   * dropping a bet can unbalance the sides.
+   */
+  scaleBets(bets: Array<RiskBet & { side: PositionSide }>, minBet: number): ScaledBets {
+    const scaled = new Map(bets.map((bet) => [bet.playerId, bet]));
+    const scale = (filter: (bet: RiskBet) => boolean, factor: Decimal) => {
+      for (const bet of scaled.values()) {
+        if (filter(bet)) {
+          scaled.set(bet.playerId, { ...bet, betAmount: this.roundDown(bet.betAmount.times(factor)) });
+        }
+      }
+    };
+
+    const dropped: string[] = [];
+    for (;;) {
+      const net = this.getNetExposure(Array.from(scaled.values()));
+      if (net.abs().gt(CONFIG.RISK.MAX_NET_EXPOSURE)) {
+        const heavySide: PositionSide = net.gt(0) ? 'LONG' : 'SHORT';
+        const onSide = (side: PositionSide) =>
+          this.getExposure(Array.from(scaled.values()).filter((bet) => bet.side === side));
+        const heavy = onSide(heavySide);
+        const light = onSide(heavySide === 'LONG' ? 'SHORT' : 'LONG');
+
+        scale((bet) => bet.side === heavySide, light.plus(CONFIG.RISK.MAX_NET_EXPOSURE).div(heavy));
+      }
+
+      const total = this.getExposure(Array.from(scaled.values()));
+      if (total.gt(CONFIG.RISK.MAX_ROUND_EXPOSURE)) {
+        scale(() => true, new Decimal(CONFIG.RISK.MAX_ROUND_EXPOSURE).div(total));
+      }
+
+      const tooSmall = Array.from(scaled.values()).filter((bet) => bet.betAmount.lt(minBet));
+      if (tooSmall.length === 0) break;
+
+      for (const bet of tooSmall) {
+        scaled.delete(bet.playerId);
+        dropped.push(bet.playerId);
+      }
+    }
+
+    const changed = new Map<string, Decimal>();
+    for (const bet of bets) {
+      const amount = scaled.get(bet.playerId)?.betAmount;
+      if (amount && !amount.eq(bet.betAmount)) {
+        changed.set(bet.playerId, amount);
+      }
+    }
+
+    return { scaled: changed, dropped };
+  }
+
+  private getExposure(bets: RiskBet[]): Decimal {
+    return sumDecimals(bets.map((bet) => bet.betAmount.times(bet.leverage)));
+  }
+
+  /**
+   * LONG exposure minus SHORT exposure
+   */
+  private getNetExposure(bets: RiskBet[]): Decimal {
+    return sumDecimals(
+      bets
+        .filter((bet) => bet.side !== null)
+        .map((bet) => {
+          const exposure = bet.betAmount.times(bet.leverage);
+          return bet.side === 'LONG' ? exposure : exposure.neg();
+        })
+    );
+  }
+
+  // Scaled bets round down to the cent so they never overshoot a limit
+  private roundDown(amount: Decimal): Decimal {
+    return amount.toDecimalPlaces(2, Decimal.ROUND_DOWN);
+  }
+}
+
+export const riskEngine = new RiskEngine();
@@ -0,0 +1,233 @@
+import { type Prisma } from '@prisma/client';
+import { logger } from '../utils/logger.js';
+import { type LedgerEntryType } from '../types.js';
+import { type Decimal, ZERO, toDecimal } from '../utils/decimal.js';
+import { type ExitFees } from '../utils/calculation.js';
+import { prisma } from './prisma.js';
+import { ledgerService } from './ledgerService.js';
+
+export type SettlementOutcome = 'shoot' | 'liquidated' | 'expired' | 'refund';
+
+export interface SettlementRequest {
+  roundId: string;
+  playerId: string;
+  outcome: SettlementOutcome;
+  exitPrice: Decimal;
+  pnl: Decimal; // Whole position, including any partial exits
+  payout: Decimal; // Paid now, for the stake still open, after fees
+  fees?: ExitFees; // Taken from this payout
+  shotAt?: Date;
+}
+
+export interface PartialExitRequest {
+  roundId: string;
+  playerId: string;
+  sequence: number; // 1-based, unique within the position
+  amount: Decimal; // Stake closed
+  exitPrice: Decimal;
+  pnl: Decimal;
+  payout: Decimal; // After fees
+  fees: ExitFees;
+  exitedAt: Date;
+}
+
+export interface SettlementResult {
+  applied: boolean; // false when the position had already been settled
+  newBalance: Decimal | null;
+}
+
+/**
+ * Idempotency key for a position's settlement
+ * One position per player per round, so round + player is unique
+ */
+export function getSettlementKey(roundId: string, playerId: string): string {
+  return `${roundId}:${playerId}`;
+}
+
+/**
+ * Settles positions atomically
+ *
+ * Each settlement claims the position by writing its settlement key and
+ * credits the player through the ledger in the same transaction. A position that already
+ * carries a key is skipped, so settlement can be retried safely after a
+ * crash or a failed write without paying or counting stats twice.
+ */
+export class SettlementService {
+  async settlePosition(request: SettlementRequest): Promise<SettlementResult> {
+    const settlementKey = getSettlementKey(request.roundId, request.playerId);
+
+    const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const position = await tx.position.findFirst({
+        where: { roundId: request.roundId, playerId: request.playerId },
+        select: { id: true },
+      });
+
+      if (!position) {
+        throw new Error(`Position not found for settlement ${settlementKey}`);
+      }
+
+      const claimed = await tx.position.updateMany({
+        where: {
+          id: position.id,
+          settlementKey: null,
+        },
+        data: {
+          exitPrice: request.exitPrice,
+          pnl: request.pnl,
+          didShoot: request.outcome === 'shoot',
+          shotAt: request.outcome === 'shoot' ? (request.shotAt ?? new Date()) : null,
+          liquidated: request.outcome === 'liquidated',
+          outcome: request.outcome,
+          rakeFee: { increment: request.fees?.rake ?? ZERO },
+          holdingFee: { increment: request.fees?.holdingFee ?? ZERO },
+          settlementKey,
+          settledAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return { applied: false, newBalance: null };
+      }
+
+      const statsUpdate = this.buildStatsUpdate(request);
+      if (statsUpdate) {
+        await tx.player.update({
+          where: { id: request.playerId },
+          data: statsUpdate,
+        });
+      }
+
+      let newBalance: Decimal;
+      if (!request.payout.isZero()) {
+        newBalance = await ledgerService.post(tx, {
+          playerId: request.playerId,
+          type: this.getLedgerType(request.outcome),
+          amount: request.payout,
+          roundId: request.roundId,
+          positionId: position.id,
+        });
+      } else {
+        const player = await tx.player.findUnique({ where: { id: request.playerId } });
+        newBalance = toDecimal(player?.demoBalance ?? 0);
+      }
+
+      return { applied: true, newBalance };
+    });
+
+    if (!result.applied) {
+      logger.debug(`Settlement ${settlementKey} already applied - skipping`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Record a partial close and pay it out
+   * Keyed by position + sequence, so an exit is never paid twice; one whose
+   * sequence is already on file fails instead of being skipped. Stats are left to the final settlement, which carries the
+   * position's blended P&L.
+   */
+  async recordPartialExit(request: PartialExitRequest): Promise<SettlementResult> {
+    const settlementKey = getSettlementKey(request.roundId, request.playerId);
+
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const position = await tx.position.findFirst({
+        where: { roundId: request.roundId, playerId: request.playerId },
+        select: { id: true, settlementKey: true },
+      });
+
+      if (!position) {
+        throw new Error(`Position not found for settlement ${settlementKey}`);
+      }
+
+      if (position.settlementKey !== null) {
+        throw new Error('Position already settled');
+      }
+
+      const created = await tx.positionExit.createMany({
+        data: [
+          {
+            positionId: position.id,
+            sequence: request.sequence,
+            amount: request.amount,
+            exitPrice: request.exitPrice,
+            pnl: request.pnl,
+            payout: request.payout,
+            rakeFee: request.fees.rake,
+            holdingFee: request.fees.holdingFee,
+            createdAt: request.exitedAt,
+          },
+        ],
+        skipDuplicates: true,
+      });
+
+      // Sequences are never reused, so a clash means memory and the
+      // database disagree; failing rolls back and reopens the stake
+      if (created.count === 0) {
+        throw new Error(`Partial exit #${request.sequence} already recorded for ${settlementKey}`);
+      }
+
+      await tx.position.update({
+        where: { id: position.id },
+        data: {
+          rakeFee: { increment: request.fees.rake },
+          holdingFee: { increment: request.fees.holdingFee },
+        },
+      });
+
+      let newBalance: Decimal;
+      if (!request.payout.isZero()) {
+        newBalance = await ledgerService.post(tx, {
+          playerId: request.playerId,
+          type: 'SHOOT_PAYOUT',
+          amount: request.payout,
+          roundId: request.roundId,
+          positionId: position.id,
+          note: `Partial exit #${request.sequence}`,
+        });
+      } else {
+        const player = await tx.player.findUnique({ where: { id: request.playerId } });
+        newBalance = toDecimal(player?.demoBalance ?? 0);
+      }
+
+      return { applied: true, newBalance };
+    });
+  }
+
+  /**
+   * Stats changes for a settled position; balance goes through the ledger
+   */
+  private buildStatsUpdate(request: SettlementRequest): Record<string, unknown> | null {
+    // Refunds only return the stake; the round doesn't count as played,
+    // but P&L already locked in by partial exits still counts
+    if (request.outcome === 'refund') {
+      return request.pnl.isZero() ? null : { totalPnl: { increment: request.pnl } };
+    }
+
+    const updateData: Record<string, unknown> = {
+      totalPnl: { increment: request.pnl },
+      gamesPlayed: { increment: 1 },
+    };
+
+    if (request.pnl.gt(0)) {
+      updateData.gamesWon = { increment: 1 };
+    } else if (request.pnl.lt(0)) {
+      updateData.gamesLost = { increment: 1 };
+    }
+
+    return updateData;
+  }
+
+  private getLedgerType(outcome: SettlementOutcome): LedgerEntryType {
+    switch (outcome) {
+      case 'shoot':
+        return 'SHOOT_PAYOUT';
+      case 'refund':
+        return 'REFUND';
+      default:
+        return 'EXPIRY_PAYOUT';
+    }
+  }
+}
+
+export const settlementService = new SettlementService();
@@ -0,0 +1,389 @@
+import { EventEmitter } from 'events';
+import { randomInt } from 'crypto';
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { type Decimal, toDecimal } from '../utils/decimal.js';
+import { GameError } from '../utils/errors.js';
+import { type LobbyRules, type PositionSide, type RoomSettings, type TableConfig, type TableSettings, type TableView } from '../types.js';
+import { prisma } from './prisma.js';
+import { recoveryService } from './recoveryService.js';
+import { ledgerService } from './ledgerService.js';
+import { GameStateManager, getRoundTypeRules } from './gameStateManager.js';
+
+/**
+ * Fill in a table's unset limits from the server-wide settings
+ */
+export function resolveTableConfig(settings: TableSettings): TableConfig {
+  const leverageTiers = settings.leverageTiers ?? CONFIG.GAME.LEVERAGE_TIERS;
+  const defaultLeverage =
+    settings.defaultLeverage ??
+    (leverageTiers.includes(CONFIG.GAME.DEFAULT_LEVERAGE)
+      ? CONFIG.GAME.DEFAULT_LEVERAGE
+      : Math.max(...leverageTiers));
+
+  if (!leverageTiers.includes(defaultLeverage)) {
+    throw new Error(`Table ${settings.id}: default leverage ${defaultLeverage}X is not one of its tiers`);
+  }
+
+  const lobbyRules: LobbyRules = {
+    minPlayers: settings.lobbyRules?.minPlayers ?? CONFIG.LOBBY.MIN_PLAYERS,
+    maxPlayers: settings.lobbyRules?.maxPlayers ?? CONFIG.LOBBY.MAX_PLAYERS,
+    requireBothSides: settings.lobbyRules?.requireBothSides ?? CONFIG.LOBBY.REQUIRE_BOTH_SIDES,
+    lateJoinWindowSeconds: settings.lobbyRules?.lateJoinWindowSeconds ?? CONFIG.LOBBY.LATE_JOIN_WINDOW_SECONDS,
+    extensionSeconds: settings.lobbyRules?.extensionSeconds ?? CONFIG.LOBBY.EXTENSION_SECONDS,
+    maxExtensions: settings.lobbyRules?.maxExtensions ?? CONFIG.LOBBY.MAX_EXTENSIONS,
+  };
+
+  if (lobbyRules.minPlayers < 1 || lobbyRules.maxPlayers < lobbyRules.minPlayers) {
+    throw new Error(`Table ${settings.id}: lobby needs 1 <= minPlayers <= maxPlayers`);
+  }
+
+  if (lobbyRules.requireBothSides && lobbyRules.maxPlayers < 2) {
+    throw new Error(`Table ${settings.id}: both sides need room for at least 2 players`);
+  }
+
+  return {
+    id: settings.id,
+    name: settings.name,
+    roundType: settings.roundType ?? CONFIG.GAME.ROUND_TYPE,
+    pairs: settings.pairs ?? null,
+    leverageTiers,
+    defaultLeverage,
+    minBet: settings.minBet ?? CONFIG.PLAYER.MIN_BET_AMOUNT,
+    maxBet: settings.maxBet ?? CONFIG.RISK.MAX_BET_AMOUNT,
+    lobbyDurationSeconds: settings.lobbyDurationSeconds ?? CONFIG.GAME.LOBBY_DURATION_SECONDS,
+    lobbyRules,
+    ownerId: null,
+    inviteCode: null,
+  };
+}
+
+// No 0/O or 1/I, so codes survive being read out loud
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Runs a GameStateManager per configured table and per private room
+ *
+ * Tables share the price feed, the ledger and the players, nothing else:
+ * each has its own lobby timer, rules, pair pool and limits. A player waits
+ * in one table's lobby at a time. Private rooms are tables created by a
+ * player, joined by invite code, and closed once their lobby sits empty.
+ */
+export class TableManager extends EventEmitter {
+  private tables: Map<string, GameStateManager> = new Map();
+  private roomsEmptySince: Map<string, number | null> = new Map();
+  private roomSweepInterval: NodeJS.Timeout | null = null;
+  private pendingJoins: Set<string> = new Set(); // Player IDs mid-join
+
+  constructor(settings: TableSettings[] = CONFIG.TABLES) {
+    super();
+
+    for (const entry of settings) {
+      if (this.tables.has(entry.id)) {
+        throw new Error(`Duplicate table id: ${entry.id}`);
+      }
+      this.tables.set(entry.id, new GameStateManager(resolveTableConfig(entry)));
+    }
+
+    if (this.tables.size === 0) {
+      throw new Error('At least one table must be configured');
+    }
+  }
+
+  async initialize(): Promise<void> {
+    logger.info(`Opening ${this.tables.size} table(s)...`);
+
+    // Settle or void rounds and lobby entries orphaned by a previous crash
+    await recoveryService.recover();
+
+    // Prove balances match the ledger (and open ledgers for older players)
+    await ledgerService.reconcile({ backfillLegacy: true });
+
+    for (const table of this.tables.values()) {
+      table.initialize();
+    }
+
+    this.roomSweepInterval = setInterval(() => {
+      this.closeIdleRooms();
+    }, 10000);
+  }
+
+  getTables(): GameStateManager[] {
+    return Array.from(this.tables.values());
+  }
+
+  /**
+   * Tables anyone can see and join (private rooms excluded)
+   */
+  getPublicTables(): GameStateManager[] {
+    return this.getTables().filter((table) => table.table.inviteCode === null);
+  }
+
+  getTable(tableId: string): GameStateManager | undefined {
+    return this.tables.get(tableId);
+  }
+
+  /**
+   * Table clients start at: the first one configured
+   */
+  getDefaultTable(): GameStateManager {
+    return this.tables.values().next().value!;
+  }
+
+  /**
+   * Table whose current round this is, if any
+   */
+  findTableByRound(roundId: string): GameStateManager | undefined {
+    return this.getTables().find((table) => table.getGameState().currentRound?.id === roundId);
+  }
+
+  /**
+   * Table whose lobby the player is waiting in, if any
+   */
+  findLobbyTable(playerId: string): GameStateManager | undefined {
+    return this.getTables().find((table) => table.isPlayerInLobby(playerId));
+  }
+
+  /**
+   * Table whose current round holds a position of the player, if any
+   */
+  findPositionTable(playerId: string): GameStateManager | undefined {
+    return this.getTables().find((table) => table.getGameState().currentRound?.positions.has(playerId));
+  }
+
+  /**
+   * Seat the player in a table's lobby, one lobby at a time
+   * The player is held for the table from before the first await until the
+   * join settles, so joins sent from two sockets at once can't both pass.
+   */
+  async joinLobby(
+    table: GameStateManager,
+    playerId: string,
+    betAmount: Decimal,
+    clientSeed: string | null,
+    side: PositionSide | null,
+    leverage: number | null
+  ): Promise<void> {
+    if (this.pendingJoins.has(playerId)) {
+      throw new GameError('Already joining a lobby', 'ALREADY_IN_LOBBY');
+    }
+
+    const lobbyTable = this.findLobbyTable(playerId);
+    if (lobbyTable && lobbyTable !== table) {
+      throw new GameError(`Already waiting at table ${lobbyTable.table.name}`, 'ALREADY_IN_LOBBY');
+    }
+
+    this.pendingJoins.add(playerId);
+    try {
+      await table.joinLobby(playerId, betAmount, clientSeed, side, leverage);
+    } finally {
+      // From here on the lobby entry itself keeps the player at the table
+      this.pendingJoins.delete(playerId);
+    }
+  }
+
+  findRoomByInviteCode(inviteCode: string): GameStateManager | undefined {
+    const code = inviteCode.trim().toUpperCase();
+    return this.getTables().find((table) => table.table.inviteCode === code);
+  }
+
+  /**
+   * Open a private room owned by the player
+   * Listeners get "table:opened" before its first lobby starts.
+   */
+  createRoom(ownerId: string, settings: RoomSettings): GameStateManager {
+    if (this.roomsEmptySince.size >= CONFIG.ROOMS.MAX_ROOMS) {
+      throw new Error('Too many private rooms open - try again later');
+    }
+
+    const owned = this.getTables().filter((table) => table.table.ownerId === ownerId);
+    if (owned.length >= CONFIG.ROOMS.MAX_ROOMS_PER_OWNER) {
+      throw new Error(`You can own at most ${CONFIG.ROOMS.MAX_ROOMS_PER_OWNER} open room(s)`);
+    }
+
+    const roundType = settings.roundType ?? CONFIG.GAME.ROUND_TYPE;
+    getRoundTypeRules(roundType);
+
+    const lobbyDurationSeconds = settings.lobbyDurationSeconds ?? CONFIG.GAME.LOBBY_DURATION_SECONDS;
+    if (
+      !Number.isInteger(lobbyDurationSeconds) ||
+      lobbyDurationSeconds < CONFIG.ROOMS.MIN_LOBBY_SECONDS ||
+      lobbyDurationSeconds > CONFIG.ROOMS.MAX_LOBBY_SECONDS
+    ) {
+      throw new Error(
+        `Lobby length must be ${CONFIG.ROOMS.MIN_LOBBY_SECONDS}-${CONFIG.ROOMS.MAX_LOBBY_SECONDS} seconds`
+      );
+    }
+
+    const betAmount = settings.betAmount !== undefined ? toDecimal(settings.betAmount) : undefined;
+    if (
+      betAmount !== undefined &&
+      !(betAmount.gte(CONFIG.PLAYER.MIN_BET_AMOUNT) && betAmount.lte(CONFIG.RISK.MAX_BET_AMOUNT))
+    ) {
+      throw new Error(`Bet size must be $${CONFIG.PLAYER.MIN_BET_AMOUNT}-$${CONFIG.RISK.MAX_BET_AMOUNT}`);
+    }
+
+    const leverage = settings.leverage;
+    if (leverage !== undefined && !CONFIG.GAME.LEVERAGE_TIERS.includes(leverage)) {
+      throw new Error(
+        `Leverage must be one of ${CONFIG.GAME.LEVERAGE_TIERS.map((tier) => `${tier}X`).join(', ')}`
+      );
+    }
+
+    const name = settings.name?.trim().slice(0, 40) || 'Private room';
+    const inviteCode = this.generateInviteCode();
+    const config: TableConfig = {
+      ...resolveTableConfig({
+        id: `room_${inviteCode}`,
+        name,
+        roundType,
+        lobbyDurationSeconds,
+        ...(betAmount !== undefined && { minBet: betAmount.toNumber(), maxBet: betAmount.toNumber() }),
+        ...(leverage !== undefined && { leverageTiers: [leverage], defaultLeverage: leverage }),
+      }),
+      ownerId,
+      inviteCode,
+    };
+
+    const room = new GameStateManager(config);
+    this.tables.set(config.id, room);
+    this.roomsEmptySince.set(config.id, Date.now());
+
+    this.emit('table:opened', room);
+    room.initialize();
+
+    logger.info(`🔒 Player ${ownerId} opened private room ${config.id} (${name})`);
+    return room;
+  }
+
+  /**
+   * Owner ends a private room's lobby early
+   */
+  startRoom(tableId: string, playerId: string): void {
+    this.getOwnedRoom(tableId, playerId).startEarly();
+  }
+
+  /**
+   * Owner removes a player from a private room
+   */
+  async kickFromRoom(tableId: string, playerId: string, targetPlayerId: string): Promise<void> {
+    if (targetPlayerId === playerId) {
+      throw new Error("You can't kick yourself");
+    }
+
+    await this.getOwnedRoom(tableId, playerId).kickPlayer(targetPlayerId);
+    logger.info(`Player ${playerId} kicked ${targetPlayerId} from room ${tableId}`);
+  }
+
+  private getOwnedRoom(tableId: string, playerId: string): GameStateManager {
+    const room = this.tables.get(tableId);
+    if (!room || room.table.ownerId === null) {
+      throw new Error('Not in a private room');
+    }
+
+    if (room.table.ownerId !== playerId) {
+      throw new Error('Only the room owner can do that');
+    }
+
+    return room;
+  }
+
+  /**
+   * Close rooms whose lobby has sat empty between rounds for too long
+   */
+  private closeIdleRooms(): void {
+    const now = Date.now();
+
+    for (const [tableId, emptySince] of this.roomsEmptySince) {
+      const room = this.tables.get(tableId)!;
+      const isEmpty = room.getGameState().phase === 'LOBBY' && room.getLobbyPlayerCount() === 0;
+
+      if (!isEmpty) {
+        this.roomsEmptySince.set(tableId, null);
+      } else if (emptySince === null) {
+        this.roomsEmptySince.set(tableId, now);
+      } else if (now - emptySince >= CONFIG.ROOMS.IDLE_CLOSE_SECONDS * 1000) {
+        room.close();
+        this.tables.delete(tableId);
+        this.roomsEmptySince.delete(tableId);
+
+        logger.info(`🔒 Closed idle private room ${tableId}`);
+        this.emit('table:closed', { tableId });
+      }
+    }
+  }
+
+  private generateInviteCode(): string {
+    for (;;) {
+      let code = '';
+      for (let i = 0; i < CONFIG.ROOMS.INVITE_CODE_LENGTH; i++) {
+        code += INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+      }
+
+      if (!this.tables.has(`room_${code}`)) {
+        return code;
+      }
+    }
+  }
+
+  /**
+   * Public description of a table and what's happening at it
+   */
+  describeTable(table: GameStateManager): TableView {
+    const config = table.table;
+    const rules = getRoundTypeRules(config.roundType);
+    const gameState = table.getGameState();
+
+    return {
+      id: config.id,
+      name: config.name,
+      roundType: config.roundType,
+      directionMode: rules.directionMode,
+      settlementMode: rules.settlementMode,
+      pairs: config.pairs,
+      leverageTiers: config.leverageTiers,
+      defaultLeverage: config.defaultLeverage,
+      minBet: config.minBet,
+      maxBet: config.maxBet,
+      lobbyDurationSeconds: config.lobbyDurationSeconds,
+      lobbyRules: config.lobbyRules,
+      isPrivate: config.inviteCode !== null,
+      ownerId: config.ownerId,
+      inviteCode: config.inviteCode,
+      phase: gameState.phase,
+      playersInLobby: table.getLobbyPlayerCount(),
+      playersInRound: gameState.currentRound?.positions.size ?? 0,
+    };
+  }
+
+  /**
+   * Get player balance
+   */
+  async getPlayerBalance(playerId: string): Promise<{
+    balance: Decimal;
+    totalPnl: Decimal;
+    gamesPlayed: number;
+  } | null> {
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+
+    if (!player) {
+      return null;
+    }
+
+    return {
+      balance: toDecimal(player.demoBalance),
+      totalPnl: toDecimal(player.totalPnl),
+      gamesPlayed: player.gamesPlayed,
+    };
+  }
+
+  close(): void {
+    if (this.roomSweepInterval) clearInterval(this.roomSweepInterval);
+
+    for (const table of this.tables.values()) {
+      table.close();
+    }
+  }
+}
+
+export const tableManager = new TableManager();
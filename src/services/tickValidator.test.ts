@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { type PriceData } from '../types.js';
+
+// Feed ticks are pushed by hand instead of over the price feed socket
+const feed = vi.hoisted(() => new Map<string, (priceData: PriceData) => void>());
+vi.mock('./priceFeedClient.js', () => ({
+  priceFeedClient: {
+    subscribeToPair: (pair: string, callback: (priceData: PriceData) => void) => {
+      feed.set(pair, callback);
+      return () => feed.delete(pair);
+    },
+  },
+}));
+
+const { TickValidator } = await import('./tickValidator.js');
+
+const PAIR = 'BTC/USD';
+
+function tick(price: number): void {
+  feed.get(PAIR)!({ pair: PAIR, price, confidence: 0, expo: 0, publishTime: Date.now() });
+}
+
+// 21 quiet ticks: a first price, then MIN_SAMPLES returns
+function warmUp(): void {
+  for (let i = 0; i <= 20; i++) {
+    tick(i % 2 === 0 ? 100 : 100.01);
+  }
+}
+
+describe('TickValidator', () => {
+  let validator: InstanceType<typeof TickValidator>;
+  let accepted: number[];
+
+  beforeEach(() => {
+    validator = new TickValidator();
+    accepted = [];
+    validator.subscribeToPair(PAIR, (priceData) => accepted.push(priceData.price));
+  });
+
+  it('is only warm once it has enough history to filter', () => {
+    for (let i = 0; i < 10; i++) tick(100);
+    expect(validator.isWarm(PAIR)).toBe(false);
+
+    warmUp();
+    expect(validator.isWarm(PAIR)).toBe(true);
+  });
+
+  it('rejects a bad print once warm', () => {
+    warmUp();
+    tick(50);
+
+    expect(accepted).not.toContain(50);
+  });
+
+  it('keeps filtering after re-anchoring on a real move', () => {
+    warmUp();
+
+    // The same new level five times over is accepted as a real move
+    for (let i = 0; i < 5; i++) tick(110);
+    expect(accepted.at(-1)).toBe(110);
+    expect(validator.isWarm(PAIR)).toBe(true);
+
+    tick(55);
+    expect(accepted).not.toContain(55);
+  });
+});
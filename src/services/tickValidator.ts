@@ -0,0 +1,210 @@
+import { CONFIG } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { calculateStandardDeviation } from '../utils/calculation.js';
+import { Decimal, toDecimal } from '../utils/decimal.js';
+import { type PriceData } from '../types.js';
+import { priceFeedClient } from './priceFeedClient.js';
+
+type PriceCallback = (priceData: PriceData) => void;
+
+export type TickRejectReason = 'invalid' | 'wide_confidence' | 'outlier';
+
+export interface PairTickStats {
+  accepted: number;
+  rejected: Record<TickRejectReason, number>;
+}
+
+interface PairState {
+  callbacks: Set<PriceCallback>;
+  unsubscribe: () => void;
+  lastPrice: number | null;
+  returns: number[]; // Log returns between accepted ticks
+  consecutiveOutliers: number;
+  lastOutlier: number | null; // Price of the latest rejected jump
+}
+
+/**
+ * Filters price feed ticks before the game sees them
+ *
+ * Sits between PriceFeedClient and its consumers with the same subscribe
+ * API. Ticks are scaled by expo (when the feed sends raw mantissas), then
+ * rejected if their confidence interval is too wide relative to the price or
+ * if they jump further than the pair's sigma limit from the last accepted
+ * price. A run of consistent "outliers" is accepted as a real move.
+ * Until a pair has MIN_SAMPLES returns nothing can be judged an outlier, so
+ * rounds only run on pairs that are warm.
+ */
+export class TickValidator {
+  private pairs: Map<string, PairState> = new Map();
+  private stats: Map<string, PairTickStats> = new Map();
+
+  subscribeToPair(pair: string, callback: PriceCallback): () => void {
+    let state = this.pairs.get(pair);
+
+    if (!state) {
+      const unsubscribe = priceFeedClient.subscribeToPair(pair, (priceData: PriceData) => {
+        this.handleTick(pair, priceData);
+      });
+
+      state = {
+        callbacks: new Set(),
+        unsubscribe,
+        lastPrice: null,
+        returns: [],
+        consecutiveOutliers: 0,
+        lastOutlier: null,
+      };
+      this.pairs.set(pair, state);
+    }
+
+    state.callbacks.add(callback);
+
+    return () => {
+      const current = this.pairs.get(pair);
+      if (!current) return;
+
+      current.callbacks.delete(callback);
+      if (current.callbacks.size === 0) {
+        current.unsubscribe();
+        this.pairs.delete(pair);
+      }
+    };
+  }
+
+  /**
+   * Whether the pair has enough history for outliers to be filtered
+   */
+  isWarm(pair: string): boolean {
+    const state = this.pairs.get(pair);
+    return (
+      state !== undefined &&
+      state.lastPrice !== null &&
+      state.returns.length >= CONFIG.TICK_FILTER.MIN_SAMPLES
+    );
+  }
+
+  private handleTick(pair: string, raw: PriceData): void {
+    const state = this.pairs.get(pair);
+    if (!state) return;
+
+    const tick = this.scale(raw);
+    const reason = this.validate(pair, state, tick);
+
+    if (reason) {
+      this.recordRejection(pair, reason, tick);
+      return;
+    }
+
+    if (state.lastPrice !== null) {
+      state.returns.push(Math.log(tick.price / state.lastPrice));
+      if (state.returns.length > CONFIG.TICK_FILTER.RETURN_WINDOW) {
+        state.returns.shift();
+      }
+    }
+    state.lastPrice = tick.price;
+    state.consecutiveOutliers = 0;
+    state.lastOutlier = null;
+    this.getStats(pair).accepted++;
+
+    for (const callback of state.callbacks) {
+      try {
+        callback(tick);
+      } catch (error) {
+        logger.error(`Error in price callback for ${pair}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Apply 10^expo to price and confidence when the feed sends mantissas
+   */
+  private scale(priceData: PriceData): PriceData {
+    if (!CONFIG.TICK_FILTER.APPLY_EXPO) {
+      return priceData;
+    }
+
+    const factor = Decimal.pow(10, priceData.expo);
+    return {
+      ...priceData,
+      price: toDecimal(priceData.price).times(factor).toNumber(),
+      confidence: toDecimal(priceData.confidence).times(factor).toNumber(),
+      expo: 0,
+    };
+  }
+
+  private validate(pair: string, state: PairState, tick: PriceData): TickRejectReason | null {
+    if (!Number.isFinite(tick.price) || tick.price <= 0 || !Number.isFinite(tick.confidence)) {
+      return 'invalid';
+    }
+
+    if (tick.confidence / tick.price > CONFIG.TICK_FILTER.MAX_CONFIDENCE_RATIO) {
+      return 'wide_confidence';
+    }
+
+    if (state.lastPrice === null || state.returns.length < CONFIG.TICK_FILTER.MIN_SAMPLES) {
+      return null;
+    }
+
+    const sigma = Math.max(calculateStandardDeviation(state.returns), CONFIG.TICK_FILTER.MIN_SIGMA);
+    const maxJump = this.getSigmaLimit(pair) * sigma;
+    const jump = Math.abs(Math.log(tick.price / state.lastPrice));
+    if (jump <= maxJump) {
+      return null;
+    }
+
+    // Outliers that agree with each other mean the market really moved:
+    // after enough of them, re-anchor on the new level
+    const agreesWithLast =
+      state.lastOutlier !== null && Math.abs(Math.log(tick.price / state.lastOutlier)) <= maxJump;
+    state.consecutiveOutliers = agreesWithLast ? state.consecutiveOutliers + 1 : 1;
+    state.lastOutlier = tick.price;
+
+    if (state.consecutiveOutliers >= CONFIG.TICK_FILTER.MAX_CONSECUTIVE_OUTLIERS) {
+      logger.warn(`${pair} moved ${(jump * 100).toFixed(2)}% and held - accepting new level`);
+      // Keep the returns so the next tick is still filtered, but don't let
+      // the jump itself inflate sigma
+      state.lastPrice = null;
+      return null;
+    }
+
+    return 'outlier';
+  }
+
+  private getSigmaLimit(pair: string): number {
+    return CONFIG.TICK_FILTER.PAIR_SIGMA_LIMITS[pair] ?? CONFIG.TICK_FILTER.SIGMA_LIMIT;
+  }
+
+  private recordRejection(pair: string, reason: TickRejectReason, tick: PriceData): void {
+    this.getStats(pair).rejected[reason]++;
+    logger.warn(
+      `Rejected ${pair} tick (${reason}) - price ${tick.price}, confidence ${tick.confidence}`
+    );
+  }
+
+  private getStats(pair: string): PairTickStats {
+    let stats = this.stats.get(pair);
+    if (!stats) {
+      stats = { accepted: 0, rejected: { invalid: 0, wide_confidence: 0, outlier: 0 } };
+      this.stats.set(pair, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Accepted and rejected tick counts per pair
+   */
+  getAllStats(): Record<string, PairTickStats> {
+    return Object.fromEntries(this.stats);
+  }
+
+  close(): void {
+    for (const state of this.pairs.values()) {
+      state.unsubscribe();
+    }
+
+    this.pairs.clear();
+    logger.info('Tick validator closed');
+  }
+}
+
+export const tickValidator = new TickValidator();
@@ -2,7 +2,7 @@ import { CONFIG } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { calculateStandardDeviation } from '../utils/calculation.js';
 import { type VolatilityData, type PriceData } from '../types.js';
-import { priceFeedClient } from './priceFeedClient.js';
+import { tickValidator } from './tickValidator.js';
 
 /**
  * Track price history and calculate volatility for all pairs
@@ -20,7 +20,7 @@ export class VolatilityService {
     for (const pair of pairs) {
       this.priceHistories.set(pair, []);
       
-      const unsubscribe = priceFeedClient.subscribeToPair(pair, (priceData: PriceData) => {
+      const unsubscribe = tickValidator.subscribeToPair(pair, (priceData: PriceData) => {
         this.handlePriceUpdate(pair, priceData.price);
       });
       
@@ -1,4 +1,9 @@
 import WebSocket from 'ws';
+import { type Decimal } from './utils/decimal.js';
+import { type ClientRateLimiter } from './websocket/rateLimiter.js';
+
+// Money and prices go over the wire as fixed-precision decimal strings
+export type DecimalString = string;
 
 // Price Feed Types (from YOUR price feed server)
 export interface PriceData {
@@ -20,6 +25,90 @@ export interface PriceFeedMessage {
 // Game State Types
 export type GamePhase = 'LOBBY' | 'ROUND';
 
+export type PositionSide = 'LONG' | 'SHORT';
+
+// How players end up LONG or SHORT
+export type DirectionMode = 'random' | 'choice';
+
+// How winners get paid: each position against price, or from a shared pool
+export type SettlementMode = 'fixed' | 'pool';
+
+// Rules a game runs with, picked per round type
+export interface GameRules {
+  directionMode: DirectionMode;
+  settlementMode: SettlementMode;
+}
+
+// When a lobby may close into a round
+export interface LobbyRules {
+  minPlayers: number;
+  maxPlayers: number;
+  requireBothSides: boolean; // At least one LONG and one SHORT
+  lateJoinWindowSeconds: number; // A join this close to the end extends the lobby
+  extensionSeconds: number;
+  maxExtensions: number; // Per lobby; a lobby still short after these rolls over
+}
+
+// A table as configured; unset limits fall back to the server-wide settings
+export interface TableSettings {
+  id: string;
+  name: string;
+  roundType?: string;
+  pairs?: string[]; // Fixed pair pool instead of the most volatile pairs
+  leverageTiers?: number[];
+  defaultLeverage?: number;
+  minBet?: number;
+  maxBet?: number;
+  lobbyDurationSeconds?: number;
+  lobbyRules?: Partial<LobbyRules>;
+}
+
+// A game table: its own LOBBY → ROUND loop with its own limits
+export interface TableConfig {
+  id: string;
+  name: string;
+  roundType: string;
+  pairs: string[] | null; // null: the most volatile pairs
+  leverageTiers: number[];
+  defaultLeverage: number;
+  minBet: number;
+  maxBet: number;
+  lobbyDurationSeconds: number;
+  lobbyRules: LobbyRules;
+  ownerId: string | null; // Set for private rooms
+  inviteCode: string | null; // Set for private rooms
+}
+
+// What a player may customise when creating a private room
+export interface RoomSettings {
+  name?: string | undefined;
+  roundType?: string | undefined;
+  lobbyDurationSeconds?: number | undefined;
+  betAmount?: number | DecimalString | undefined; // Fixed stake for everyone
+  leverage?: number | undefined; // Single tier for everyone
+}
+
+export interface TableView {
+  id: string;
+  name: string;
+  roundType: string;
+  directionMode: DirectionMode;
+  settlementMode: SettlementMode;
+  pairs: string[] | null;
+  leverageTiers: number[];
+  defaultLeverage: number;
+  minBet: number;
+  maxBet: number;
+  lobbyDurationSeconds: number;
+  lobbyRules: LobbyRules;
+  isPrivate: boolean;
+  ownerId: string | null;
+  inviteCode: string | null;
+  phase: GamePhase;
+  playersInLobby: number;
+  playersInRound: number;
+}
+
 export interface GameState {
   phase: GamePhase;
   currentRound: RoundState | null;
@@ -30,63 +119,301 @@ export interface GameState {
 export interface RoundState {
   id: string;
   pair: string;
-  entryPrice: number;
-  currentPrice: number;
-  leverage: number;
+  entryPrice: Decimal;
+  currentPrice: Decimal;
+  leverage: number; // Bet-weighted leverage the duration was drawn with
   startTime: number;
   endTime: number | null;
   duration: number; // Random duration in seconds
-  totalWagered: number;
+  totalWagered: Decimal;
   positions: Map<string, PlayerPosition>;
+  lastTickAt: number; // When the feed last delivered a usable price
+  directionMode: DirectionMode;
+  settlementMode: SettlementMode;
+  fairness: RoundFairness;
+}
+
+// Provably fair commit-reveal seeds (serverSeed stays secret until round end)
+export interface RoundFairness {
+  serverSeed: string;
+  serverSeedHash: string;
+  clientSeed: string;
 }
 
 export interface PlayerPosition {
   playerId: string;
   positionType: 'LONG' | 'SHORT';
-  betAmount: number; // Amount player wagered this round
-  entryPrice: number;
-  currentPnl: number;
+  betAmount: Decimal; // Amount player wagered this round
+  remainingAmount: Decimal; // Stake still open after partial exits
+  leverage: number; // Player's chosen tier, capped at the pair's max
+  entryPrice: Decimal;
+  currentPnl: Decimal; // Realized P&L plus unrealized P&L on the remaining stake
+  realizedPnl: Decimal; // P&L locked in by partial exits
+  realizedPayout: Decimal; // Paid out by partial exits (after fees)
+  entryFee: Decimal; // Charged on top of the bet at round start
+  rakeFees: Decimal; // Profit rake taken so far
+  holdingFees: Decimal; // Holding fees taken so far
+  exits: PositionExitState[];
+  exitSequence: number; // Last partial-exit sequence handed out; never reused
+  orders: PositionOrders;
   liquidated: boolean;
   didShoot: boolean;
   shotAt: number | null;
+  exitPrice: Decimal | null; // Price the position closed at (shoot or liquidation)
+}
+
+// Auto-shoot orders: a trigger price, or a P&L % of the original bet
+export type OrderLevel =
+  | { kind: 'price'; price: Decimal }
+  | { kind: 'pnl_percent'; pnlPercent: Decimal };
+
+export interface PositionOrders {
+  takeProfit: OrderLevel | null;
+  stopLoss: OrderLevel | null;
+}
+
+export type OrderRole = 'take_profit' | 'stop_loss';
+
+export type ShootReason = 'manual' | OrderRole;
+
+// Wire form of an order level: exactly one of price or pnlPercent
+export interface OrderLevelInput {
+  price?: number | DecimalString;
+  pnlPercent?: number | DecimalString;
+}
+
+export type OrderLevelView = { price: DecimalString } | { pnlPercent: DecimalString };
+
+// One partial close of a position
+export interface PositionExitState {
+  amount: Decimal; // Stake closed
+  exitPrice: Decimal;
+  pnl: Decimal;
+  payout: Decimal; // After fees
+  rake: Decimal;
+  holdingFee: Decimal;
+  exitedAt: number;
+}
+
+// Payout multiple a side earns if it wins a pool round
+export interface PoolOddsView {
+  long: string | null;
+  short: string | null;
+}
+
+export interface PoolSummaryView {
+  total: DecimalString;
+  winningStake: DecimalString;
+  losingStake: DecimalString;
+}
+
+export interface PositionExitView {
+  amount: DecimalString;
+  exitPrice: DecimalString;
+  pnl: DecimalString;
+  payout: DecimalString;
+  rake: DecimalString;
+  holdingFee: DecimalString;
+  exitedAt: number;
+}
+
+export interface FeeView {
+  entryFee: DecimalString;
+  rake: DecimalString;
+  holdingFee: DecimalString;
 }
 
 export interface LobbyPlayer {
   playerId: string;
   username: string;
-  betAmount: number; // Amount player wants to bet
-  balance: number; // Current balance
+  betAmount: Decimal; // Amount player wants to bet
+  leverage: number; // Chosen leverage tier
+  balance: Decimal; // Current balance
+  joinedAt: number;
+  clientSeed: string | null; // Player's contribution to the round's randomness
+  side: PositionSide | null; // Chosen side; null when sides are assigned randomly
+}
+
+export interface LobbyPlayerView {
+  playerId: string;
+  username: string;
+  betAmount: DecimalString;
+  leverage: number;
+  balance: DecimalString;
   joinedAt: number;
+  side: PositionSide | null;
+}
+
+// Anonymous tallies of a round, streamed to everyone following the table
+export interface RoundStats {
+  playersInRound: number;
+  openLongs: number;
+  openShorts: number;
+  openLongStake: Decimal;
+  openShortStake: Decimal;
+  liquidations: number;
+  shots: number; // Players who shot, fully or partly
+}
+
+export interface RoundStatsView {
+  playersInRound: number;
+  openLongs: number;
+  openShorts: number;
+  openLongStake: DecimalString;
+  openShortStake: DecimalString;
+  liquidations: number;
+  shots: number;
+}
+
+export type RoundStreamStatus = 'live' | 'ended' | 'voided';
+
+// Snapshot a (re)connecting client rebuilds its UI from
+export interface LobbyStateView {
+  secondsRemaining: number;
+  lobbyEndTime: number;
+  playersInLobby: number;
+  rules: LobbyRules;
+  myEntry: LobbyPlayerView | null; // Set while the player waits in this lobby
+}
+
+export interface RoundStateView {
+  roundId: string;
+  pair: string;
+  entryPrice: DecimalString;
+  currentPrice: DecimalString;
+  startTime: number;
+  playersInRound: number;
+  settlementMode: SettlementMode;
+  serverSeedHash: string;
+}
+
+export interface PositionView {
+  roundId: string;
+  side: PositionSide;
+  betAmount: DecimalString;
+  remainingAmount: DecimalString;
+  leverage: number;
+  entryPrice: DecimalString;
+  currentPrice: DecimalString;
+  pnl: DecimalString; // Realized plus unrealized
+  pnlPercentage: DecimalString;
+  realizedPnl: DecimalString;
+  liquidationPrice: DecimalString;
+  status: 'open' | 'closed' | 'liquidated';
+  didShoot: boolean;
+  takeProfit: OrderLevelView | null;
+  stopLoss: OrderLevelView | null;
+  fees: FeeView;
+}
+
+// Balance Ledger
+export type LedgerEntryType =
+  | 'OPENING_BALANCE'
+  | 'BET_PLACED'
+  | 'ENTRY_FEE'
+  | 'SHOOT_PAYOUT'
+  | 'EXPIRY_PAYOUT'
+  | 'REFUND'
+  | 'PAYOUT_REVERSAL'
+  | 'ADMIN_ADJUSTMENT';
+
+export interface LedgerEntryView {
+  id: string;
+  type: LedgerEntryType;
+  amount: DecimalString; // Signed change to the player's balance
+  balanceAfter: DecimalString;
+  roundId: string | null;
+  positionId: string | null;
+  note: string | null;
+  createdAt: number;
 }
 
 // WebSocket Client State
 export interface GameClient {
   id: string;
   ws: WebSocket;
-  playerId: string | null;
+  playerId: string | null; // Bound by AUTH, never taken from messages
+  username: string | null;
+  sessionExpiresAt: number | null; // Access token expiry; REFRESH extends it
+  tableId: string; // Table whose lobby and round events this client gets
   connectedAt: number;
+  rateLimiter: ClientRateLimiter;
+  connection: ConnectionStats;
+}
+
+// Protocol-level heartbeat state and round-trip times, in ms
+export interface ConnectionStats {
+  pingSentAt: number | null; // Outstanding ping, cleared by its pong
+  lastPongAt: number | null;
+  missedPongs: number; // Heartbeats in a row without a pong
+  rttMs: number | null; // Latest round trip
+  avgRttMs: number | null; // Smoothed round trip
+}
+
+// Wallets players can sign in with: evm (secp256k1, 0x address) or
+// solana (ed25519, base58 public key)
+export type WalletChain = 'evm' | 'solana';
+
+// Session tokens handed out by AUTH and REFRESH (expiries in ms)
+export interface SessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: number;
+  refreshToken: string;
+  refreshTokenExpiresAt: number;
 }
 
 // WebSocket Messages - Client to Server
+// Bet amounts may be sent as numbers or decimal strings. The player acting
+// is the one the socket authenticated as; a playerId sent along must match.
 export type ClientMessage =
-  | { type: 'JOIN_LOBBY'; playerId: string; username: string; betAmount: number }
-  | { type: 'LEAVE_LOBBY'; playerId: string }
-  | { type: 'SHOOT'; playerId: string; roundId: string }
-  | { type: 'GET_BALANCE'; playerId: string }
+  | { type: 'AUTH'; token?: string; claimToken?: string; username?: string } // token resumes a session; claimToken (admin-issued) signs in an existing player; username alone creates a guest player
+  | { type: 'REFRESH'; refreshToken: string }
+  | { type: 'WALLET_NONCE'; chain: WalletChain; address: string }
+  | { type: 'WALLET_AUTH'; nonce: string; signature: string; username?: string } // username names a new player
+  | { type: 'LINK_WALLET'; playerId?: string; nonce: string; signature: string }
+  | { type: 'JOIN_LOBBY'; playerId?: string; betAmount: number | DecimalString; clientSeed?: string; side?: PositionSide; leverage?: number }
+  | { type: 'LEAVE_LOBBY'; playerId?: string }
+  | { type: 'UPDATE_BET'; playerId?: string; betAmount: number | DecimalString; side?: PositionSide; leverage?: number }
+  | { type: 'SHOOT'; playerId?: string; roundId: string; fraction?: number; amount?: number | DecimalString } // Omit both to close everything
+  | { type: 'SET_ORDERS'; playerId?: string; roundId: string; takeProfit?: OrderLevelInput | null; stopLoss?: OrderLevelInput | null } // Omit to keep, null to cancel
+  | { type: 'GET_BALANCE'; playerId?: string }
+  | { type: 'GET_STATE'; playerId?: string } // Snapshot of the client's table
+  | { type: 'RESUME'; playerId?: string } // Move to the table holding the player's position or lobby entry, then snapshot
+  | { type: 'GET_LEDGER'; playerId?: string; cursor?: string; limit?: number }
+  | { type: 'LIST_TABLES' }
+  | { type: 'JOIN_TABLE'; tableId: string }
+  | { type: 'CREATE_ROOM'; playerId?: string; name?: string; roundType?: string; lobbyDurationSeconds?: number; betAmount?: number | DecimalString; leverage?: number }
+  | { type: 'JOIN_ROOM'; inviteCode: string }
+  | { type: 'START_ROOM'; playerId?: string } // Owner only, acts on the client's table
+  | { type: 'KICK_PLAYER'; playerId?: string; targetPlayerId: string } // Owner only
   | { type: 'PING' };
 
 // WebSocket Messages - Server to Client
 export type ServerMessage =
   | { type: 'CONNECTED'; clientId: string; timestamp: number }
-  | { type: 'BALANCE_UPDATE'; balance: number; totalPnl: number; gamesPlayed: number }
-  | { type: 'LOBBY_UPDATE'; secondsRemaining: number; playersInLobby: number; totalWagered: number; players: LobbyPlayer[] }
-  | { type: 'ROUND_START'; roundId: string; pair: string; entryPrice: number; leverage: number; myPosition: 'LONG' | 'SHORT'; myBetAmount: number }
-  | { type: 'PRICE_UPDATE'; currentPrice: number; pnl: number; pnlPercentage: number; liquidationPrice: number }
-  | { type: 'LIQUIDATED'; finalPrice: number; loss: number }
-  | { type: 'SHOOT_SUCCESS'; exitPrice: number; pnl: number; payout: number }
-  | { type: 'ROUND_END'; finalPrice: number; myPnl: number; payout: number; didShoot: boolean; reason: string; newBalance: number }
+  | { type: 'AUTHENTICATED'; playerId: string; username: string; sessionExpiresAt: number; tokens: SessionTokens | null } // tokens: only when new ones were issued
+  | { type: 'WALLET_CHALLENGE'; nonce: string; chain: WalletChain; address: string; message: string; expiresAt: number } // Sign message, send it back with the nonce
+  | { type: 'WALLET_LINKED'; walletAddress: string }
+  | { type: 'BALANCE_UPDATE'; balance: DecimalString; totalPnl: DecimalString; gamesPlayed: number }
+  | { type: 'TABLES'; tables: TableView[] }
+  | { type: 'TABLE_JOINED'; table: TableView }
+  | { type: 'ROOM_CREATED'; table: TableView }
+  | { type: 'KICKED'; tableId: string }
+  | { type: 'ROOM_CLOSED'; tableId: string } // Client is moved back to the default table
+  | { type: 'LOBBY_UPDATE'; tableId: string; secondsRemaining: number; playersInLobby: number; totalWagered: DecimalString; players: LobbyPlayerView[]; serverSeedHash: string; directionMode: DirectionMode; longTotal: DecimalString; shortTotal: DecimalString; longCount: number; shortCount: number; rules: LobbyRules; extensionsUsed: number }
+  | { type: 'ROUND_START'; tableId: string; roundId: string; pair: string; entryPrice: DecimalString; leverage: number; myPosition: 'LONG' | 'SHORT'; myBetAmount: DecimalString; settlementMode: SettlementMode; odds: PoolOddsView | null; serverSeedHash: string; clientSeed: string }
+  | { type: 'PRICE_UPDATE'; currentPrice: DecimalString; pnl: DecimalString; pnlPercentage: DecimalString; liquidationPrice: DecimalString; remainingAmount: DecimalString }
+  | { type: 'LIQUIDATED'; finalPrice: DecimalString; loss: DecimalString }
+  | { type: 'SHOOT_SUCCESS'; exitPrice: DecimalString; pnl: DecimalString; payout: DecimalString; closedAmount: DecimalString; remainingAmount: DecimalString; partial: boolean; reason: ShootReason; fees: FeeView; deferred: boolean } // deferred: pool rounds pay out at round end
+  | { type: 'ORDERS_UPDATED'; roundId: string; takeProfit: OrderLevelView | null; stopLoss: OrderLevelView | null }
+  | { type: 'ROUND_END'; finalPrice: DecimalString; myPnl: DecimalString; payout: DecimalString; didShoot: boolean; reason: string; newBalance: DecimalString; exits: PositionExitView[]; fees: FeeView; settlementMode: SettlementMode; pool: PoolSummaryView | null; serverSeed: string; serverSeedHash: string; clientSeed: string } // myPnl/payout blend every exit
+  | { type: 'ROUND_VOIDED'; roundId: string; reason: string; refund: DecimalString; newBalance: DecimalString; serverSeed: string; serverSeedHash: string; clientSeed: string }
+  | { type: 'LEDGER'; entries: LedgerEntryView[]; nextCursor: string | null }
   | { type: 'ERROR'; message: string; code?: string }
-  | { type: 'PONG' };
+  | { type: 'ROUND_STREAM'; tableId: string; roundId: string; pair: string; entryPrice: DecimalString; currentPrice: DecimalString; status: RoundStreamStatus; stats: RoundStatsView } // Throttled while live
+  | { type: 'ROUND_FEED'; tableId: string; roundId: string; event: 'shot' | 'liquidation'; side: PositionSide; leverage: number; price: DecimalString; pnl: DecimalString; partial: boolean; reason: ShootReason | null; at: number } // No player identity
+  | { type: 'STATE'; tableId: string; phase: GamePhase; serverTime: number; lobby: LobbyStateView | null; round: RoundStateView | null; position: PositionView | null } // position: the player's, in the current round
+  | { type: 'PONG'; serverTime: number; rttMs: number | null; avgRttMs: number | null };
 
 // Volatility Data
 export interface VolatilityData {
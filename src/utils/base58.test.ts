@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase58, encodeBase58 } from './base58.js';
+
+describe('base58', () => {
+  it('decodes known values', () => {
+    expect(decodeBase58('StV1DL6CwTryKyV').toString('utf8')).toBe('hello world');
+    expect(decodeBase58('11111111111111111111111111111111')).toEqual(Buffer.alloc(32));
+  });
+
+  it('round-trips bytes, leading zeros included', () => {
+    const bytes = Buffer.from('0000ff01020304fe', 'hex');
+
+    expect(encodeBase58(bytes)).toMatch(/^11/);
+    expect(decodeBase58(encodeBase58(bytes))).toEqual(bytes);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => decodeBase58('0OIl')).toThrow('Invalid base58 character');
+  });
+});
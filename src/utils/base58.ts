@@ -0,0 +1,53 @@
+/**
+ * Bitcoin-alphabet base58, the encoding Solana uses for keys and signatures
+ */
+
+const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+/**
+ * Encode bytes as base58 text
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) + BigInt(byte);
+  }
+
+  let text = '';
+  while (value > 0n) {
+    text = ALPHABET[Number(value % 58n)]! + text;
+    value /= 58n;
+  }
+
+  // Each leading zero byte becomes a leading '1'
+  let leadingZeros = 0;
+  while (bytes[leadingZeros] === 0) leadingZeros++;
+
+  return '1'.repeat(leadingZeros) + text;
+}
+
+/**
+ * Decode base58 text; throws on characters outside the alphabet
+ */
+export function decodeBase58(text: string): Buffer {
+  let value = 0n;
+  for (const char of text) {
+    const digit = ALPHABET.indexOf(char);
+    if (digit === -1) {
+      throw new Error(`Invalid base58 character: ${char}`);
+    }
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+
+  // Each leading '1' stands for a leading zero byte
+  let leadingZeros = 0;
+  while (text[leadingZeros] === '1') leadingZeros++;
+
+  return Buffer.from([...new Array(leadingZeros).fill(0), ...bytes]);
+}
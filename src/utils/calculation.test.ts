@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateLiquidationPrice,
+  calculatePayout,
+  calculatePnL,
+  getPositionStatus,
+  isLiquidated,
+} from './calculation.js';
+import { Decimal, MONEY_DECIMALS, toMoney, toPrice } from './decimal.js';
+
+// Money and price columns are Decimal(20, 8): 12 integer digits, 8 decimals
+function fitsSchema(value: Decimal): boolean {
+  return value.decimalPlaces() <= MONEY_DECIMALS && value.abs().lt('1e12');
+}
+
+const d = (value: string) => new Decimal(value);
+
+describe('calculatePnL', () => {
+  it('is exact for a one-tick move at 500x', () => {
+    const entry = toPrice('BTC/USD', '100000.00');
+    const tick = toPrice('BTC/USD', '100000.01');
+
+    expect(calculatePnL('LONG', entry, tick, d('10'), 500).toFixed()).toBe('0.0005');
+    expect(calculatePnL('SHORT', entry, tick, d('10'), 500).toFixed()).toBe('-0.0005');
+  });
+
+  it('rounds 8-decimal price moves to money precision', () => {
+    const entry = toPrice('PEPE/USD', '0.00001234');
+    const tick = toPrice('PEPE/USD', '0.00001235');
+    const pnl = calculatePnL('LONG', entry, tick, d('100'), 500);
+
+    // 100 * 500 * 0.00000001 / 0.00001234 = 40.518638573743922...
+    expect(pnl.toFixed()).toBe('40.51863857');
+    expect(fitsSchema(pnl)).toBe(true);
+  });
+
+  it('rounds half to even at the 8th decimal', () => {
+    const entry = d('1');
+    const moved = d('1.00000001');
+
+    expect(calculatePnL('LONG', entry, moved, d('0.5'), 1).isZero()).toBe(true);
+    expect(calculatePnL('LONG', entry, moved, d('1.5'), 1).toFixed()).toBe('0.00000002');
+  });
+});
+
+describe('calculateLiquidationPrice', () => {
+  it('rounds toward the entry price at 500x', () => {
+    const entry = toPrice('BTC/USD', '100000.01');
+
+    // 99800.00998 and 100200.01002 before rounding
+    expect(calculateLiquidationPrice('BTC/USD', 'LONG', entry, 500).toFixed()).toBe('99800.01');
+    expect(calculateLiquidationPrice('BTC/USD', 'SHORT', entry, 500).toFixed()).toBe('100200.01');
+  });
+
+  it('keeps 8-decimal prices at schema precision', () => {
+    const entry = toPrice('PEPE/USD', '0.01234567');
+    const long = calculateLiquidationPrice('PEPE/USD', 'LONG', entry, 500);
+    const short = calculateLiquidationPrice('PEPE/USD', 'SHORT', entry, 500);
+
+    // 0.01232097866 and 0.01237036134 before rounding
+    expect(long.toFixed()).toBe('0.01232098');
+    expect(short.toFixed()).toBe('0.01237036');
+    expect(fitsSchema(long) && fitsSchema(short)).toBe(true);
+  });
+
+  it('liquidates exactly at the level clients are shown', () => {
+    const entry = toPrice('PEPE/USD', '0.01234567');
+    const long = calculateLiquidationPrice('PEPE/USD', 'LONG', entry, 500);
+    const short = calculateLiquidationPrice('PEPE/USD', 'SHORT', entry, 500);
+    const tick = d('0.00000001');
+
+    expect(isLiquidated('PEPE/USD', 'LONG', entry, long, 500)).toBe(true);
+    expect(isLiquidated('PEPE/USD', 'LONG', entry, long.plus(tick), 500)).toBe(false);
+    expect(isLiquidated('PEPE/USD', 'SHORT', entry, short, 500)).toBe(true);
+    expect(isLiquidated('PEPE/USD', 'SHORT', entry, short.minus(tick), 500)).toBe(false);
+  });
+});
+
+describe('calculatePayout', () => {
+  it('returns stake plus P&L at money precision', () => {
+    expect(calculatePayout(d('10'), d('0.0005'), false, false).toFixed()).toBe('10.0005');
+    expect(calculatePayout(d('10'), d('0.123456785'), true, false).toFixed()).toBe('10.12345678');
+  });
+
+  it('pays nothing when liquidated or wiped out', () => {
+    expect(calculatePayout(d('10'), d('5'), false, true).isZero()).toBe(true);
+    expect(calculatePayout(d('10'), d('-10.5'), false, false).isZero()).toBe(true);
+  });
+
+  it('settles a 500x position at schema precision with no drift', () => {
+    const stake = toMoney('250.5');
+    const entry = toPrice('PEPE/USD', '0.01234567');
+    const exit = toPrice('PEPE/USD', '0.01234999');
+
+    const pnl = calculatePnL('LONG', entry, exit, stake, 500);
+    const payout = calculatePayout(stake, pnl, true, false);
+
+    // What the client was shown is exactly what gets written
+    expect(fitsSchema(pnl) && fitsSchema(payout)).toBe(true);
+    expect(payout.eq(stake.plus(pnl))).toBe(true);
+    expect(toMoney(payout.toFixed(MONEY_DECIMALS)).eq(payout)).toBe(true);
+  });
+});
+
+describe('getPositionStatus', () => {
+  it('shows a fully shot position as closed', () => {
+    // shoot() leaves remainingAmount at the full stake
+    const position = { liquidated: false, didShoot: true, remainingAmount: d('10') };
+
+    expect(getPositionStatus(position)).toBe('closed');
+  });
+
+  it('shows a position closed by partial exits as closed', () => {
+    expect(getPositionStatus({ liquidated: false, didShoot: false, remainingAmount: d('0') })).toBe('closed');
+  });
+
+  it('shows open and liquidated positions as such', () => {
+    expect(getPositionStatus({ liquidated: false, didShoot: false, remainingAmount: d('10') })).toBe('open');
+    expect(getPositionStatus({ liquidated: true, didShoot: false, remainingAmount: d('10') })).toBe('liquidated');
+  });
+});
@@ -1,53 +1,77 @@
+import { CONFIG } from '../config.js';
+import { type OrderLevel, type OrderRole, type PlayerPosition, type PositionView } from '../types.js';
+import { Decimal, MONEY_DECIMALS, ZERO, sumDecimals, toMoney, toPrice } from './decimal.js';
+
+/**
+ * Highest leverage allowed on a pair
+ */
+export function getMaxLeverage(pair: string): number {
+  return CONFIG.PAIRS.MAX_LEVERAGE[pair] ?? CONFIG.PAIRS.DEFAULT_MAX_LEVERAGE;
+}
+
 /**
  * Calculate P&L for a position
+ * Rounded half-even to money precision, the same value that gets settled
  */
 export function calculatePnL(
   positionType: 'LONG' | 'SHORT',
-  entryPrice: number,
-  currentPrice: number,
-  entryAmount: number,
+  entryPrice: Decimal,
+  currentPrice: Decimal,
+  entryAmount: Decimal,
   leverage: number
-): number {
-  const priceChange = currentPrice - entryPrice;
-  const priceChangePercent = priceChange / entryPrice;
+): Decimal {
+  const priceChange = currentPrice.minus(entryPrice);
+  const priceChangePercent = priceChange.div(entryPrice);
 
-  let pnl: number;
+  let pnl: Decimal;
   if (positionType === 'LONG') {
-    pnl = entryAmount * priceChangePercent * leverage;
+    pnl = entryAmount.times(priceChangePercent).times(leverage);
   } else {
     // SHORT
-    pnl = entryAmount * -priceChangePercent * leverage;
+    pnl = entryAmount.times(priceChangePercent.neg()).times(leverage);
   }
 
-  return pnl;
+  return toMoney(pnl);
 }
 
 /**
- * Calculate P&L percentage
+ * Calculate P&L percentage (4 decimal places)
  */
-export function calculatePnLPercentage(pnl: number, entryAmount: number): number {
-  return (pnl / entryAmount) * 100;
+export function calculatePnLPercentage(pnl: Decimal, entryAmount: Decimal): Decimal {
+  if (entryAmount.isZero()) return ZERO;
+  return pnl.div(entryAmount).times(100).toDecimalPlaces(4);
 }
 
 /**
  * Calculate liquidation price for a position
+ * Rounded to the pair's precision, toward the entry price, so the level
+ * clients are shown is exactly the level that liquidates them
  */
 export function calculateLiquidationPrice(
+  pair: string,
   positionType: 'LONG' | 'SHORT',
-  entryPrice: number,
+  entryPrice: Decimal,
   leverage: number
-): number {
+): Decimal {
   // Liquidation occurs at -100% loss
   // For LONG: liquidation price = entryPrice * (1 - 1/leverage)
   // For SHORT: liquidation price = entryPrice * (1 + 1/leverage)
 
-  const liquidationPercentage = 1 / leverage;
+  const liquidationPercentage = new Decimal(1).div(leverage);
 
   if (positionType === 'LONG') {
-    return entryPrice * (1 - liquidationPercentage);
+    return toPrice(
+      pair,
+      entryPrice.times(new Decimal(1).minus(liquidationPercentage)),
+      Decimal.ROUND_CEIL
+    );
   } else {
     // SHORT
-    return entryPrice * (1 + liquidationPercentage);
+    return toPrice(
+      pair,
+      entryPrice.times(new Decimal(1).plus(liquidationPercentage)),
+      Decimal.ROUND_FLOOR
+    );
   }
 }
 
@@ -55,42 +79,157 @@ export function calculateLiquidationPrice(
  * Check if position is liquidated
  */
 export function isLiquidated(
+  pair: string,
   positionType: 'LONG' | 'SHORT',
-  entryPrice: number,
-  currentPrice: number,
+  entryPrice: Decimal,
+  currentPrice: Decimal,
   leverage: number
 ): boolean {
-  const liquidationPrice = calculateLiquidationPrice(positionType, entryPrice, leverage);
+  const liquidationPrice = calculateLiquidationPrice(pair, positionType, entryPrice, leverage);
 
   if (positionType === 'LONG') {
-    return currentPrice <= liquidationPrice;
+    return currentPrice.lte(liquidationPrice);
   } else {
     // SHORT
-    return currentPrice >= liquidationPrice;
+    return currentPrice.gte(liquidationPrice);
   }
 }
 
 /**
- * Calculate final payout for a position
+ * Status shown to clients for a position
+ * A full shoot closes the position without touching remainingAmount, so
+ * didShoot is what marks it closed; partial exits can also close it all.
  */
+export function getPositionStatus(
+  position: Pick<PlayerPosition, 'liquidated' | 'didShoot' | 'remainingAmount'>
+): PositionView['status'] {
+  if (position.liquidated) return 'liquidated';
+  if (position.didShoot || position.remainingAmount.isZero()) return 'closed';
+  return 'open';
+}
+
 /**
  * Calculate final payout for a position
  */
 export function calculatePayout(
-  entryAmount: number,
-  pnl: number,
+  entryAmount: Decimal,
+  pnl: Decimal,
   didShoot: boolean,
   liquidated: boolean
-): number {
+): Decimal {
   if (liquidated) {
     // Liquidated = total loss
-    return 0;
+    return ZERO;
   }
 
   // Whether they shot or not, they get their entry + P&L
   // The only difference is shooting early locks in the current P&L
   // Time expiry should settle at the final P&L
-  return Math.max(0, entryAmount + pnl);
+  return toMoney(Decimal.max(ZERO, entryAmount.plus(pnl)));
+}
+
+export interface PoolStake {
+  stake: Decimal;
+  pnl: Decimal; // P&L against price, which only ranks the winners
+}
+
+/**
+ * Payout multiple each side earns if it wins a pool round
+ * The whole pool over the side's stake; null for a side nobody is on.
+ */
+export function calculatePoolOdds(
+  longStake: Decimal,
+  shortStake: Decimal
+): { long: Decimal | null; short: Decimal | null } {
+  const total = longStake.plus(shortStake);
+
+  return {
+    long: longStake.isZero() ? null : total.div(longStake).toDecimalPlaces(4),
+    short: shortStake.isZero() ? null : total.div(shortStake).toDecimalPlaces(4),
+  };
+}
+
+/**
+ * Split a pari-mutuel pool
+ * Losers forfeit their stakes and winners share them in proportion to their
+ * P&L, on top of their own stake back; break-even positions get their stake
+ * back. With no winners nobody can collect, so every stake is returned.
+ * Shares round down, so the payouts never add up to more than the pool.
+ */
+export function calculatePoolPayouts(stakes: PoolStake[]): Decimal[] {
+  const winningPnl = sumDecimals(stakes.filter((s) => s.pnl.gt(0)).map((s) => s.pnl));
+  if (winningPnl.isZero()) {
+    return stakes.map((s) => s.stake);
+  }
+
+  const losingStake = sumDecimals(stakes.filter((s) => s.pnl.lt(0)).map((s) => s.stake));
+
+  return stakes.map((s) => {
+    if (s.pnl.lt(0)) return ZERO;
+    if (s.pnl.isZero()) return s.stake;
+
+    const share = losingStake
+      .times(s.pnl)
+      .div(winningPnl)
+      .toDecimalPlaces(MONEY_DECIMALS, Decimal.ROUND_DOWN);
+    return s.stake.plus(share);
+  });
+}
+
+export interface ExitFees {
+  rake: Decimal;
+  holdingFee: Decimal;
+}
+
+/**
+ * Entry fee charged on top of a bet
+ */
+export function calculateEntryFee(betAmount: Decimal): Decimal {
+  return toMoney(betAmount.times(CONFIG.FEES.ENTRY_FEE_RATE));
+}
+
+/**
+ * Fees taken from a payout: rake on profit, then holding fee for time held
+ * Never more than the payout itself, so a close can't cost extra.
+ */
+export function calculateExitFees(
+  stake: Decimal,
+  pnl: Decimal,
+  grossPayout: Decimal,
+  heldSeconds: number
+): ExitFees {
+  const rake = Decimal.min(
+    toMoney(Decimal.max(ZERO, pnl).times(CONFIG.FEES.PROFIT_RAKE_RATE)),
+    grossPayout
+  );
+  const holdingFee = Decimal.min(
+    toMoney(stake.times(CONFIG.FEES.HOLDING_FEE_RATE_PER_SECOND).times(Math.max(0, heldSeconds))),
+    grossPayout.minus(rake)
+  );
+
+  return { rake, holdingFee };
+}
+
+/**
+ * Check if a take-profit or stop-loss level has been reached
+ * P&L % levels compare against the position's P&L as a % of its bet
+ */
+export function isOrderTriggered(
+  role: OrderRole,
+  order: OrderLevel,
+  positionType: 'LONG' | 'SHORT',
+  currentPrice: Decimal,
+  pnlPercentage: Decimal
+): boolean {
+  if (order.kind === 'pnl_percent') {
+    return role === 'take_profit'
+      ? pnlPercentage.gte(order.pnlPercent)
+      : pnlPercentage.lte(order.pnlPercent);
+  }
+
+  // Take-profit sits on the winning side of the price, stop-loss on the losing side
+  const priceRising = (role === 'take_profit') === (positionType === 'LONG');
+  return priceRising ? currentPrice.gte(order.price) : currentPrice.lte(order.price);
 }
 
 /**
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Decimal,
+  MONEY_DECIMALS,
+  ZERO,
+  formatMoney,
+  formatPrice,
+  sumDecimals,
+  toMoney,
+  toPrice,
+} from './decimal.js';
+
+// Money and price columns are Decimal(20, 8): 12 integer digits, 8 decimals
+function fitsSchema(value: Decimal): boolean {
+  return value.decimalPlaces() <= MONEY_DECIMALS && value.abs().lt('1e12');
+}
+
+describe('toMoney', () => {
+  it('rounds to 8 decimals, half to even', () => {
+    expect(toMoney('0.123456785').toFixed()).toBe('0.12345678');
+    expect(toMoney('0.123456775').toFixed()).toBe('0.12345678');
+    expect(toMoney('-0.000000005').isZero()).toBe(true);
+    expect(toMoney('0.000000015').toFixed()).toBe('0.00000002');
+  });
+
+  it('keeps large balances exact', () => {
+    const balance = toMoney('999999999999.99999999');
+    expect(balance.toFixed()).toBe('999999999999.99999999');
+    expect(fitsSchema(balance)).toBe(true);
+  });
+
+  it('formats without exponent notation', () => {
+    expect(formatMoney(toMoney('1e-8'))).toBe('0.00000001');
+    expect(formatMoney(toMoney(1e21))).toBe('1000000000000000000000.00000000');
+  });
+});
+
+describe('toPrice', () => {
+  it('rounds to the pair precision', () => {
+    expect(toPrice('BTC/USD', '97123.455').toFixed()).toBe('97123.46');
+    expect(toPrice('BTC/USD', '97123.445').toFixed()).toBe('97123.44');
+    expect(formatPrice('BTC/USD', toPrice('BTC/USD', '97123.4'))).toBe('97123.40');
+  });
+
+  it('keeps 8-decimal prices at the schema boundary', () => {
+    expect(toPrice('PEPE/USD', '0.000012345').toFixed()).toBe('0.00001234');
+    expect(toPrice('PEPE/USD', '0.000012345', Decimal.ROUND_CEIL).toFixed()).toBe('0.00001235');
+    expect(formatPrice('PEPE/USD', toPrice('PEPE/USD', '0.00000001'))).toBe('0.00000001');
+  });
+
+  it('never uses more decimals than the schema for unknown pairs', () => {
+    const price = toPrice('UNLISTED/USD', '1.123456789123');
+    expect(price.toFixed()).toBe('1.12345679');
+    expect(fitsSchema(price)).toBe(true);
+  });
+});
+
+describe('ledger sums', () => {
+  it('add up exactly at schema precision', () => {
+    const postings = Array.from({ length: 10000 }, () => toMoney('0.00000001'));
+    const total = sumDecimals(postings);
+
+    expect(total.toFixed()).toBe('0.0001');
+    expect(fitsSchema(total)).toBe(true);
+  });
+
+  it('balance to zero across both sides of every posting', () => {
+    const amounts = ['-10', '-0.05', '19.99999999', '0.00000001', '-1234.56789012'].map(toMoney);
+    const entries = amounts.flatMap((amount) => [amount, amount.neg()]);
+
+    expect(sumDecimals(entries).eq(ZERO)).toBe(true);
+  });
+
+  it('match the balance the postings leave behind', () => {
+    const opening = toMoney('10000');
+    const postings = ['-100', '-0.5', '150.12345678', '-0.00000001'].map(toMoney);
+
+    let balance = opening;
+    for (const amount of postings) {
+      balance = toMoney(balance.plus(amount));
+    }
+
+    expect(balance.eq(opening.plus(sumDecimals(postings)))).toBe(true);
+    expect(balance.toFixed()).toBe('10049.62345677');
+    expect(fitsSchema(balance)).toBe(true);
+  });
+});
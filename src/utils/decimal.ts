@@ -0,0 +1,87 @@
+import { Decimal as DecimalJS } from 'decimal.js';
+import { CONFIG } from '../config.js';
+
+/**
+ * Decimal type used for every money and price value
+ * Enough precision that 500x leverage on an 8-decimal price never rounds
+ * before the explicit rounding below, and no exponent notation in strings.
+ */
+export const Decimal = DecimalJS.clone({
+  precision: 40,
+  rounding: DecimalJS.ROUND_HALF_EVEN,
+  toExpNeg: -40,
+  toExpPos: 40,
+});
+export type Decimal = InstanceType<typeof Decimal>;
+
+export type DecimalInput = DecimalJS.Value | { toString(): string };
+
+// Money columns are Decimal(20, 8)
+export const MONEY_DECIMALS = 8;
+
+// Price columns are Decimal(20, 8) too, so no pair may use more
+const MAX_PRICE_DECIMALS = 8;
+
+export const ZERO = new Decimal(0);
+
+/**
+ * Convert a number, string or Prisma Decimal into our Decimal
+ */
+export function toDecimal(value: DecimalInput): Decimal {
+  if (typeof value === 'number' || typeof value === 'string' || value instanceof Decimal) {
+    return new Decimal(value);
+  }
+  return new Decimal(value.toString());
+}
+
+/**
+ * Round a money amount to schema precision
+ * Half-even, so rounding errors don't drift in either party's favour
+ */
+export function toMoney(value: DecimalInput): Decimal {
+  return toDecimal(value).toDecimalPlaces(MONEY_DECIMALS, Decimal.ROUND_HALF_EVEN);
+}
+
+/**
+ * Price decimals for a pair, capped at schema precision
+ */
+export function getPriceDecimals(pair: string): number {
+  const decimals = CONFIG.PAIRS.PRICE_DECIMALS[pair] ?? CONFIG.PAIRS.DEFAULT_PRICE_DECIMALS;
+  return Math.min(decimals, MAX_PRICE_DECIMALS);
+}
+
+/**
+ * Round a price to its pair's precision
+ */
+export function toPrice(
+  pair: string,
+  value: DecimalInput,
+  rounding: DecimalJS.Rounding = Decimal.ROUND_HALF_EVEN
+): Decimal {
+  return toDecimal(value).toDecimalPlaces(getPriceDecimals(pair), rounding);
+}
+
+/**
+ * Wire format for money: fixed schema precision, never exponent notation
+ */
+export function formatMoney(value: Decimal): string {
+  return value.toFixed(MONEY_DECIMALS);
+}
+
+/**
+ * Wire format for a price: fixed pair precision
+ */
+export function formatPrice(pair: string, value: Decimal): string {
+  return value.toFixed(getPriceDecimals(pair));
+}
+
+/**
+ * Sum a list of decimals
+ */
+export function sumDecimals(values: Iterable<Decimal>): Decimal {
+  let total = ZERO;
+  for (const value of values) {
+    total = total.plus(value);
+  }
+  return total;
+}
@@ -0,0 +1,12 @@
+/**
+ * Rejection with a code clients can act on, sent as ERROR's code
+ */
+export class GameError extends Error {
+  constructor(
+    message: string,
+    readonly code: string
+  ) {
+    super(message);
+    this.name = 'GameError';
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { keccak256 } from './keccak.js';
+
+const hash = (text: string) => keccak256(Buffer.from(text, 'utf8')).toString('hex');
+
+describe('keccak256', () => {
+  it('matches the known empty-input digest', () => {
+    expect(hash('')).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+  });
+
+  it('matches known digests for short input', () => {
+    expect(hash('abc')).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+    expect(hash('hello')).toBe('1c8aff950685c2ed4bc3174f3472287b56d9517b9c948127319a09a7a36deac8');
+  });
+
+  it('pads input that fills a whole block', () => {
+    // 136 bytes is exactly one rate block, so padding adds a second
+    const digest = keccak256(Buffer.alloc(136, 0x61)).toString('hex');
+    expect(digest).not.toBe(keccak256(Buffer.alloc(135, 0x61)).toString('hex'));
+    expect(digest).toHaveLength(64);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Keccak-256 as Ethereum uses it (original Keccak padding, not SHA3-256)
+ *
+ * Node's crypto only ships the standardised SHA3, so the sponge lives here.
+ * Lanes are BigInts: slow next to a native hash, fine for the handful of
+ * hashes a wallet sign-in needs.
+ */
+
+const MASK_64 = (1n << 64n) - 1n;
+const RATE_BYTES = 136; // 1088-bit rate for a 256-bit digest
+
+// ι round constants and ρ rotation offsets, derived as in the Keccak spec
+const ROUND_CONSTANTS: bigint[] = [];
+const ROTATIONS: number[] = new Array(25).fill(0);
+
+{
+  let lfsr = 1;
+  for (let round = 0; round < 24; round++) {
+    let constant = 0n;
+    for (let bit = 0; bit < 7; bit++) {
+      lfsr = ((lfsr << 1) ^ ((lfsr >> 7) * 0x71)) & 0xff;
+      if (lfsr & 2) {
+        constant |= 1n << BigInt((1 << bit) - 1);
+      }
+    }
+    ROUND_CONSTANTS.push(constant);
+  }
+
+  let x = 1;
+  let y = 0;
+  for (let t = 0; t < 24; t++) {
+    ROTATIONS[x + 5 * y] = (((t + 1) * (t + 2)) / 2) % 64;
+    [x, y] = [y, (2 * x + 3 * y) % 5];
+  }
+}
+
+function rotl(lane: bigint, shift: number): bigint {
+  if (shift === 0) return lane;
+  return ((lane << BigInt(shift)) | (lane >> BigInt(64 - shift))) & MASK_64;
+}
+
+function keccakF1600(state: bigint[]): void {
+  const columns: bigint[] = new Array(5);
+  const moved: bigint[] = new Array(25);
+
+  for (let round = 0; round < 24; round++) {
+    // θ
+    for (let x = 0; x < 5; x++) {
+      columns[x] = state[x]! ^ state[x + 5]! ^ state[x + 10]! ^ state[x + 15]! ^ state[x + 20]!;
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5]! ^ rotl(columns[(x + 1) % 5]!, 1);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y]! ^= d;
+      }
+    }
+
+    // ρ and π
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotl(state[x + 5 * y]!, ROTATIONS[x + 5 * y]!);
+      }
+    }
+
+    // χ
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = moved[x + y]! ^ (~moved[((x + 1) % 5) + y]! & MASK_64 & moved[((x + 2) % 5) + y]!);
+      }
+    }
+
+    // ι
+    state[0]! ^= ROUND_CONSTANTS[round]!;
+  }
+}
+
+export function keccak256(data: Uint8Array): Buffer {
+  // Pad to a whole number of blocks: 0x01, zeros, then 0x80 on the last byte
+  const blocks = Math.floor(data.length / RATE_BYTES) + 1;
+  const padded = Buffer.alloc(blocks * RATE_BYTES);
+  padded.set(data);
+  padded[data.length]! ^= 0x01;
+  padded[padded.length - 1]! ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let lane = 0; lane < RATE_BYTES / 8; lane++) {
+      state[lane]! ^= padded.readBigUInt64LE(offset + lane * 8);
+    }
+    keccakF1600(state);
+  }
+
+  const digest = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) {
+    digest.writeBigUInt64LE(state[lane]!, lane * 8);
+  }
+  return digest;
+}
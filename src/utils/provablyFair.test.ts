@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { combineClientSeeds, parseClientSeeds } from './provablyFair.js';
+
+const seeds = [
+  { playerId: 'alice', clientSeed: 'lucky' },
+  { playerId: 'bob', clientSeed: null },
+];
+
+describe('combineClientSeeds', () => {
+  it('does not depend on join order', () => {
+    expect(combineClientSeeds([...seeds].reverse())).toBe(combineClientSeeds(seeds));
+  });
+
+  it('changes when any published seed is swapped', () => {
+    const combined = combineClientSeeds(seeds);
+
+    expect(combineClientSeeds([seeds[0]!, { playerId: 'bob', clientSeed: 'other' }])).not.toBe(combined);
+    expect(combineClientSeeds([{ playerId: 'alice', clientSeed: 'unlucky' }, seeds[1]!])).not.toBe(combined);
+    expect(combineClientSeeds([seeds[0]!])).not.toBe(combined);
+  });
+
+  it('uses the player ID for players without a seed', () => {
+    expect(combineClientSeeds([{ playerId: 'bob', clientSeed: null }])).toBe(
+      combineClientSeeds([{ playerId: 'bob', clientSeed: 'bob' }])
+    );
+  });
+});
+
+describe('parseClientSeeds', () => {
+  it('reads back stored contributions', () => {
+    expect(parseClientSeeds(JSON.parse(JSON.stringify(seeds)))).toEqual(seeds);
+    expect(parseClientSeeds([])).toEqual([]);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseClientSeeds(null)).toBeNull();
+    expect(parseClientSeeds({ playerId: 'alice', clientSeed: 'lucky' })).toBeNull();
+    expect(parseClientSeeds([null])).toBeNull();
+    expect(parseClientSeeds([{ playerId: 'alice' }])).toBeNull();
+    expect(parseClientSeeds([{ playerId: 7, clientSeed: 'lucky' }])).toBeNull();
+    expect(parseClientSeeds([{ playerId: 'alice', clientSeed: 7 }])).toBeNull();
+  });
+});
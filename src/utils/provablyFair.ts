@@ -0,0 +1,140 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+
+/**
+ * Source of randomness for every round decision
+ */
+export interface RandomSource {
+  /** Uniform float in [0, 1) */
+  nextFloat(): number;
+  /** Uniform integer in [0, maxExclusive) */
+  nextInt(maxExclusive: number): number;
+}
+
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Generate a fresh secret server seed (committed by hash before use)
+ */
+export function generateServerSeed(): string {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * Commitment published before the round: SHA-256 of the server seed
+ */
+export function hashServerSeed(serverSeed: string): string {
+  return createHash('sha256').update(serverSeed).digest('hex');
+}
+
+/**
+ * One lobby player's input to the round's client seed
+ */
+export interface ClientSeedContribution {
+  playerId: string;
+  clientSeed: string | null;
+}
+
+/**
+ * Read stored client seed contributions back from JSON
+ * Returns null unless the value is a list of { playerId, clientSeed } entries.
+ */
+export function parseClientSeeds(value: unknown): ClientSeedContribution[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const seeds: ClientSeedContribution[] = [];
+  for (const entry of value) {
+    if (typeof entry !== 'object' || entry === null) {
+      return null;
+    }
+
+    const { playerId, clientSeed } = entry as Record<string, unknown>;
+    if (typeof playerId !== 'string' || (typeof clientSeed !== 'string' && clientSeed !== null)) {
+      return null;
+    }
+    seeds.push({ playerId, clientSeed });
+  }
+
+  return seeds;
+}
+
+/**
+ * Combine every lobby player's client seed into the round's client seed
+ * Sorted by player so the result doesn't depend on join order. Players
+ * that didn't send a seed contribute their player ID.
+ */
+export function combineClientSeeds(seeds: ClientSeedContribution[]): string {
+  const parts = seeds
+    .map(({ playerId, clientSeed }) => `${playerId}:${clientSeed ?? playerId}`)
+    .sort();
+
+  return createHash('sha256').update(parts.join('|')).digest('hex');
+}
+
+/**
+ * Deterministic CSPRNG stream derived from a server/client seed pair
+ *
+ * Block n is HMAC-SHA256(serverSeed, `${clientSeed}:${n}`), consumed four
+ * bytes at a time as big-endian uint32s. Anyone holding the revealed seeds
+ * can replay the exact same sequence of draws.
+ */
+export class FairRandom implements RandomSource {
+  private block: Buffer = Buffer.alloc(0);
+  private offset = 0;
+  private blockIndex = 0;
+
+  constructor(
+    private readonly serverSeed: string,
+    private readonly clientSeed: string
+  ) {}
+
+  nextFloat(): number {
+    return this.nextUint32() / UINT32_RANGE;
+  }
+
+  /**
+   * Rejection sampling, so no value is more likely than another
+   */
+  nextInt(maxExclusive: number): number {
+    if (!Number.isInteger(maxExclusive) || maxExclusive <= 0 || maxExclusive > UINT32_RANGE) {
+      throw new Error(`Invalid range for nextInt: ${maxExclusive}`);
+    }
+
+    const limit = UINT32_RANGE - (UINT32_RANGE % maxExclusive);
+    let value = this.nextUint32();
+    while (value >= limit) {
+      value = this.nextUint32();
+    }
+
+    return value % maxExclusive;
+  }
+
+  private nextUint32(): number {
+    if (this.offset + 4 > this.block.length) {
+      this.block = createHmac('sha256', this.serverSeed)
+        .update(`${this.clientSeed}:${this.blockIndex}`)
+        .digest();
+      this.blockIndex++;
+      this.offset = 0;
+    }
+
+    const value = this.block.readUInt32BE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+}
+
+/**
+ * Unbiased Fisher-Yates shuffle
+ */
+export function shuffle<T>(items: T[], rng: RandomSource): T[] {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = rng.nextInt(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+  }
+
+  return shuffled;
+}
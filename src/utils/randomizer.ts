@@ -1,33 +1,42 @@
 import { type VolatilityData } from '../types.js';
+import { type Decimal, sumDecimals } from './decimal.js';
+import { type RandomSource, shuffle } from './provablyFair.js';
 
 /**
- * Select a random pair from high-volatility pairs
+ * Candidate pairs for a round: the top 30% most volatile
+ * Stored with the round so the pair draw can be replayed
  */
-export function selectRandomPair(volatilityData: VolatilityData[]): string | null {
-  if (volatilityData.length === 0) {
-    return null;
-  }
-
+export function getPairCandidates(volatilityData: VolatilityData[]): string[] {
   // Sort by volatility (highest first)
   const sorted = [...volatilityData].sort((a, b) => b.volatility - a.volatility);
 
   // Take top 30% most volatile pairs
   const topCount = Math.max(1, Math.ceil(sorted.length * 0.3));
-  const topPairs = sorted.slice(0, topCount);
+  return sorted.slice(0, topCount).map((data) => data.pair);
+}
+
+/**
+ * Select a random pair from the candidate pairs
+ */
+export function selectRandomPair(candidates: string[], rng: RandomSource): string | null {
+  if (candidates.length === 0) {
+    return null;
+  }
 
-  // Randomly select one from the top volatile pairs
-  const randomIndex = Math.floor(Math.random() * topPairs.length);
-  return topPairs[randomIndex]?.pair ?? null;
+  return candidates[rng.nextInt(candidates.length)] ?? null;
 }
 
 /**
  * Assign random LONG/SHORT positions to players (50/50 distribution)
  */
-export function assignRandomPositions(playerIds: string[]): Map<string, 'LONG' | 'SHORT'> {
+export function assignRandomPositions(
+  playerIds: string[],
+  rng: RandomSource
+): Map<string, 'LONG' | 'SHORT'> {
   const positions = new Map<string, 'LONG' | 'SHORT'>();
 
-  // Shuffle player IDs
-  const shuffled = [...playerIds].sort(() => Math.random() - 0.5);
+  // Shuffle player IDs (sorted first so join order can't change the result)
+  const shuffled = shuffle([...playerIds].sort(), rng);
 
   // Split 50/50
   const halfPoint = Math.floor(shuffled.length / 2);
@@ -46,7 +55,8 @@ export function assignRandomPositions(playerIds: string[]): Map<string, 'LONG' |
 export function generateRandomDuration(
   leverage: number,
   minSeconds: number,
-  maxSeconds: number
+  maxSeconds: number,
+  rng: RandomSource
 ): number {
   // Adjust max duration based on leverage
   // 500X leverage -> maxSeconds
@@ -56,24 +66,41 @@ export function generateRandomDuration(
   const adjustedMax = Math.min(maxSeconds * leverageFactor, maxSeconds * 5);
 
   // Generate random duration between min and adjusted max
-  const duration = minSeconds + Math.random() * (adjustedMax - minSeconds);
+  const duration = minSeconds + rng.nextFloat() * (adjustedMax - minSeconds);
 
   return Math.round(duration * 100) / 100; // Round to 2 decimals
 }
 
+/**
+ * Bet-weighted average leverage of a round's positions, rounded to a whole
+ * number so the stored value replays the same duration
+ */
+export function getEffectiveLeverage(
+  stakes: Array<{ betAmount: Decimal; leverage: number }>
+): number {
+  const totalBet = sumDecimals(stakes.map((s) => s.betAmount));
+  if (totalBet.isZero()) {
+    return Math.max(...stakes.map((s) => s.leverage));
+  }
+
+  const weighted = sumDecimals(stakes.map((s) => s.betAmount.times(s.leverage)));
+  return Math.max(1, weighted.div(totalBet).round().toNumber());
+}
+
 /**
  * Random selection with weighted probability
  */
 export function weightedRandomSelection<T>(
   items: T[],
-  weights: number[]
+  weights: number[],
+  rng: RandomSource
 ): T | null {
   if (items.length === 0 || items.length !== weights.length) {
     return null;
   }
 
   const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-  let random = Math.random() * totalWeight;
+  let random = rng.nextFloat() * totalWeight;
 
   for (let i = 0; i < items.length; i++) {
     const weight = weights[i];
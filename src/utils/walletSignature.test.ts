@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { encodeBase58 } from './base58.js';
+import { normalizeWalletAddress, verifyWalletSignature } from './walletSignature.js';
+
+// personal_sign of 'Some data' by 0x4c0883a6...f362318 (web3.js docs)
+const EVM_ADDRESS = normalizeWalletAddress('evm', '0x2c7536E3605D9C16a7a3D7b1898e529396a65c23');
+const EVM_SIGNATURE =
+  '0xb91467e570a6466aa9e9876cbcd013baba02900b8979d43fe208a4a4f339f5fd' +
+  '6007e74cd82e037b800186422fc2da167c747ef045e5d18a5f5d4300f8e1a029' +
+  '1c';
+
+// RFC 8032 ed25519 test vector 2 (message 0x72)
+const SOLANA_ADDRESS = encodeBase58(
+  Buffer.from('3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c', 'hex')
+);
+const SOLANA_SIGNATURE = Buffer.from(
+  '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da' +
+    '085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00',
+  'hex'
+);
+
+function tamper(hex: string, index: number): string {
+  const bytes = Buffer.from(hex.replace(/^0x/, ''), 'hex');
+  bytes[index]! ^= 0x01;
+  return `0x${bytes.toString('hex')}`;
+}
+
+describe('verifyWalletSignature', () => {
+  it('recovers a personal_sign signature to its address', () => {
+    expect(verifyWalletSignature('evm', EVM_ADDRESS, 'Some data', EVM_SIGNATURE)).toBe(true);
+  });
+
+  it('rejects an EVM signature over another message or from another key', () => {
+    expect(verifyWalletSignature('evm', EVM_ADDRESS, 'Some other data', EVM_SIGNATURE)).toBe(false);
+    expect(verifyWalletSignature('evm', EVM_ADDRESS, 'Some data', tamper(EVM_SIGNATURE, 10))).toBe(false);
+    expect(verifyWalletSignature('evm', `0x${'11'.repeat(20)}`, 'Some data', EVM_SIGNATURE)).toBe(false);
+  });
+
+  it('accepts a valid ed25519 signature', () => {
+    expect(
+      verifyWalletSignature('solana', SOLANA_ADDRESS, 'r', encodeBase58(SOLANA_SIGNATURE))
+    ).toBe(true);
+  });
+
+  it('rejects a tampered ed25519 signature', () => {
+    const tampered = Buffer.from(SOLANA_SIGNATURE);
+    tampered[0]! ^= 0x01;
+
+    expect(verifyWalletSignature('solana', SOLANA_ADDRESS, 'r', encodeBase58(tampered))).toBe(false);
+    expect(
+      verifyWalletSignature('solana', SOLANA_ADDRESS, 's', encodeBase58(SOLANA_SIGNATURE))
+    ).toBe(false);
+  });
+});
+
+describe('normalizeWalletAddress', () => {
+  it('lowercases EVM addresses and checks Solana keys are 32 bytes', () => {
+    expect(EVM_ADDRESS).toBe('0x2c7536e3605d9c16a7a3d7b1898e529396a65c23');
+    expect(normalizeWalletAddress('solana', SOLANA_ADDRESS)).toBe(SOLANA_ADDRESS);
+    expect(() => normalizeWalletAddress('solana', encodeBase58(Buffer.alloc(31, 1)))).toThrow();
+  });
+});
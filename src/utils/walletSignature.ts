@@ -0,0 +1,202 @@
+import { createPublicKey, verify } from 'crypto';
+import { type WalletChain } from '../types.js';
+import { keccak256 } from './keccak.js';
+import { decodeBase58 } from './base58.js';
+
+/**
+ * Offline verification of wallet signatures
+ *
+ * evm:    personal_sign (EIP-191) by a secp256k1 key. The 65-byte r||s||v
+ *         signature yields the signer's public key, whose keccak-256 hash
+ *         ends in the address.
+ * solana: a raw ed25519 signature over the message; the base58 address is
+ *         the public key itself.
+ */
+
+// secp256k1 domain parameters
+const P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: Point = {
+  x: 0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  y: 0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+};
+
+// DER header turning a raw 32-byte ed25519 key into SPKI for node:crypto
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+/**
+ * Canonical form of a wallet address (what Player.walletAddress stores)
+ * Throws if the address isn't valid for the chain.
+ */
+export function normalizeWalletAddress(chain: WalletChain, address: string): string {
+  const trimmed = address.trim();
+
+  if (chain === 'evm') {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(trimmed)) {
+      throw new Error('EVM address must be 0x followed by 40 hex digits');
+    }
+    return trimmed.toLowerCase();
+  }
+
+  if (decodeBase58Safe(trimmed)?.length !== 32) {
+    throw new Error('Solana address must be a base58 32-byte public key');
+  }
+  return trimmed;
+}
+
+/**
+ * Whether the signature over the message was made by the address's key
+ * The address must already be normalized.
+ */
+export function verifyWalletSignature(
+  chain: WalletChain,
+  address: string,
+  message: string,
+  signature: string
+): boolean {
+  return chain === 'evm'
+    ? verifyEvmSignature(address, message, signature)
+    : verifySolanaSignature(address, message, signature);
+}
+
+function verifyEvmSignature(address: string, message: string, signature: string): boolean {
+  const bytes = Buffer.from(signature.replace(/^0x/, ''), 'hex');
+  if (bytes.length !== 65) {
+    return false;
+  }
+
+  const r = BigInt(`0x${bytes.subarray(0, 32).toString('hex')}`);
+  const s = BigInt(`0x${bytes.subarray(32, 64).toString('hex')}`);
+  const v = bytes[64]!;
+  const recoveryId = v >= 27 ? v - 27 : v;
+  if (recoveryId !== 0 && recoveryId !== 1) {
+    return false;
+  }
+
+  const body = Buffer.from(message, 'utf8');
+  const digest = keccak256(
+    Buffer.concat([Buffer.from(`\x19Ethereum Signed Message:\n${body.length}`, 'utf8'), body])
+  );
+
+  const publicKey = recoverPublicKey(BigInt(`0x${digest.toString('hex')}`), r, s, recoveryId);
+  if (!publicKey) {
+    return false;
+  }
+
+  const encoded = Buffer.from(
+    publicKey.x.toString(16).padStart(64, '0') + publicKey.y.toString(16).padStart(64, '0'),
+    'hex'
+  );
+  return `0x${keccak256(encoded).subarray(12).toString('hex')}` === address;
+}
+
+function verifySolanaSignature(address: string, message: string, signature: string): boolean {
+  const signatureBytes = decodeBase58Safe(signature);
+  if (signatureBytes?.length !== 64) {
+    return false;
+  }
+
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, decodeBase58(address)]),
+      format: 'der',
+      type: 'spki',
+    });
+    return verify(null, Buffer.from(message, 'utf8'), key, signatureBytes);
+  } catch {
+    return false;
+  }
+}
+
+function decodeBase58Safe(text: string): Buffer | null {
+  try {
+    return decodeBase58(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ECDSA public key recovery: Q = r⁻¹(sR - zG)
+ */
+function recoverPublicKey(z: bigint, r: bigint, s: bigint, recoveryId: number): Point | null {
+  if (r <= 0n || r >= N || s <= 0n || s >= N) {
+    return null;
+  }
+
+  // R's x is r (the r + n case needs recovery ids 2/3, which wallets never use)
+  const ySquared = (r ** 3n + 7n) % P;
+  let y = modPow(ySquared, (P + 1n) / 4n, P);
+  if ((y * y) % P !== ySquared) {
+    return null;
+  }
+  if (Number(y & 1n) !== recoveryId) {
+    y = P - y;
+  }
+
+  const rInverse = modInverse(r, N);
+  const u1 = mod(-z * rInverse, N);
+  const u2 = mod(s * rInverse, N);
+
+  return pointAdd(multiply(G, u1), multiply({ x: r, y }, u2));
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+  const result = value % modulus;
+  return result >= 0n ? result : result + modulus;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  base = mod(base, modulus);
+  while (exponent > 0n) {
+    if (exponent & 1n) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function modInverse(value: bigint, modulus: bigint): bigint {
+  let [oldR, r] = [mod(value, modulus), modulus];
+  let [oldS, s] = [1n, 0n];
+  while (r !== 0n) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  return mod(oldS, modulus);
+}
+
+// Affine point arithmetic; null is the point at infinity
+function pointAdd(a: Point | null, b: Point | null): Point | null {
+  if (!a) return b;
+  if (!b) return a;
+
+  let slope: bigint;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y, P) === 0n) return null;
+    slope = mod(3n * a.x * a.x * modInverse(2n * a.y, P), P);
+  } else {
+    slope = mod((b.y - a.y) * modInverse(b.x - a.x, P), P);
+  }
+
+  const x = mod(slope * slope - a.x - b.x, P);
+  return { x, y: mod(slope * (a.x - x) - a.y, P) };
+}
+
+function multiply(point: Point, scalar: bigint): Point | null {
+  let result: Point | null = null;
+  let addend: Point | null = point;
+  while (scalar > 0n) {
+    if (scalar & 1n) result = pointAdd(result, addend);
+    addend = pointAdd(addend, addend);
+    scalar >>= 1n;
+  }
+  return result;
+}
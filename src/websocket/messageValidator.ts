@@ -0,0 +1,167 @@
+import { type ClientMessage } from '../types.js';
+import { GameError } from '../utils/errors.js';
+
+/**
+ * Runtime checks for incoming client messages
+ *
+ * Every ClientMessage variant has a schema listing its fields. A message
+ * passes only with a known type and every field valid; the result holds
+ * just the schema's fields, so stray keys never reach the handlers.
+ */
+
+interface FieldRule {
+  optional?: boolean;
+  nullable?: boolean;
+  expected: string; // Completes "<field> must be ..."
+  check: (value: unknown) => boolean;
+}
+
+type MessageSchema = Record<string, FieldRule>;
+
+const DECIMAL_PATTERN = /^\d{1,20}(\.\d{1,18})?$/;
+const SIGNED_DECIMAL_PATTERN = /^-?\d{1,20}(\.\d{1,18})?$/;
+
+function text(maxLength: number): FieldRule {
+  return {
+    expected: `a string of at most ${maxLength} characters`,
+    check: (value) => typeof value === 'string' && value.length > 0 && value.length <= maxLength,
+  };
+}
+
+function oneOf(...options: string[]): FieldRule {
+  return {
+    expected: `one of ${options.join(', ')}`,
+    check: (value) => typeof value === 'string' && options.includes(value),
+  };
+}
+
+function positiveInteger(max: number = Number.MAX_SAFE_INTEGER): FieldRule {
+  return {
+    expected: `a whole number from 1 to ${max}`,
+    check: (value) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= max,
+  };
+}
+
+// Money sent as a number or decimal string, greater than zero
+const amount: FieldRule = {
+  expected: 'a positive number or decimal string',
+  check: (value) =>
+    (typeof value === 'number' && Number.isFinite(value) && value > 0) ||
+    (typeof value === 'string' && DECIMAL_PATTERN.test(value) && Number(value) > 0),
+};
+
+const fraction: FieldRule = {
+  expected: 'a number above 0 and at most 1',
+  check: (value) => typeof value === 'number' && value > 0 && value <= 1,
+};
+
+const orderLevel: FieldRule = {
+  expected: 'an object with exactly one of price or pnlPercent',
+  check: (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+    const { price, pnlPercent, ...rest } = value as Record<string, unknown>;
+    if (Object.keys(rest).length > 0 || (price === undefined) === (pnlPercent === undefined)) return false;
+    return price !== undefined
+      ? amount.check(price)
+      : (typeof pnlPercent === 'number' && Number.isFinite(pnlPercent)) ||
+          (typeof pnlPercent === 'string' && SIGNED_DECIMAL_PATTERN.test(pnlPercent));
+  },
+};
+
+const optional = (rule: FieldRule): FieldRule => ({ ...rule, optional: true });
+const orNull = (rule: FieldRule): FieldRule => ({ ...rule, nullable: true, expected: `${rule.expected} or null` });
+
+const id = text(128);
+const playerId = optional(id); // Must match the session when sent
+const token = text(2048);
+
+const SCHEMAS: { [Type in ClientMessage['type']]: MessageSchema } = {
+  AUTH: { token: optional(token), claimToken: optional(token), username: optional(text(64)) },
+  REFRESH: { refreshToken: token },
+  WALLET_NONCE: { chain: oneOf('evm', 'solana'), address: text(128) },
+  WALLET_AUTH: { nonce: text(64), signature: text(256), username: optional(text(64)) },
+  LINK_WALLET: { playerId, nonce: text(64), signature: text(256) },
+  JOIN_LOBBY: {
+    playerId,
+    betAmount: amount,
+    clientSeed: optional(text(64)),
+    side: optional(oneOf('LONG', 'SHORT')),
+    leverage: optional(positiveInteger()),
+  },
+  LEAVE_LOBBY: { playerId },
+  UPDATE_BET: {
+    playerId,
+    betAmount: amount,
+    side: optional(oneOf('LONG', 'SHORT')),
+    leverage: optional(positiveInteger()),
+  },
+  SHOOT: { playerId, roundId: id, fraction: optional(fraction), amount: optional(amount) },
+  SET_ORDERS: {
+    playerId,
+    roundId: id,
+    takeProfit: optional(orNull(orderLevel)),
+    stopLoss: optional(orNull(orderLevel)),
+  },
+  GET_BALANCE: { playerId },
+  GET_STATE: { playerId },
+  RESUME: { playerId },
+  GET_LEDGER: { playerId, cursor: optional(id), limit: optional(positiveInteger(1000)) },
+  LIST_TABLES: {},
+  JOIN_TABLE: { tableId: id },
+  CREATE_ROOM: {
+    playerId,
+    name: optional(text(64)),
+    roundType: optional(text(32)),
+    lobbyDurationSeconds: optional(positiveInteger()),
+    betAmount: optional(amount),
+    leverage: optional(positiveInteger()),
+  },
+  JOIN_ROOM: { inviteCode: text(16) },
+  START_ROOM: { playerId },
+  KICK_PLAYER: { playerId, targetPlayerId: id },
+  PING: {},
+};
+
+/**
+ * Parse and validate one text frame
+ * Throws a GameError whose code says what was wrong with it.
+ */
+export function parseClientMessage(raw: string): ClientMessage {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new GameError('Message is not valid JSON', 'INVALID_JSON');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new GameError('Message must be a JSON object', 'INVALID_MESSAGE');
+  }
+
+  const input = parsed as Record<string, unknown>;
+  if (typeof input.type !== 'string' || !Object.hasOwn(SCHEMAS, input.type)) {
+    throw new GameError('Unknown message type', 'UNKNOWN_MESSAGE');
+  }
+
+  const schema = SCHEMAS[input.type as ClientMessage['type']];
+  const message: Record<string, unknown> = { type: input.type };
+
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = input[field];
+
+    if (value === undefined) {
+      if (!rule.optional) {
+        throw new GameError(`${field} is required`, 'MISSING_FIELD');
+      }
+      continue;
+    }
+
+    if (!(value === null && rule.nullable) && !rule.check(value)) {
+      throw new GameError(`${field} must be ${rule.expected}`, 'INVALID_FIELD');
+    }
+
+    message[field] = value;
+  }
+
+  return message as ClientMessage;
+}
@@ -0,0 +1,78 @@
+import { CONFIG } from '../config.js';
+import { type ClientMessage } from '../types.js';
+
+export interface BucketSettings {
+  capacity: number; // Burst size
+  refillPerSecond: number;
+}
+
+/**
+ * Classic token bucket: holds up to capacity tokens, refilled continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly settings: BucketSettings) {
+    this.tokens = settings.capacity;
+  }
+
+  /**
+   * Take a token if one is left
+   */
+  take(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.settings.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.settings.refillPerSecond
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) {
+      return false;
+    }
+
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * One connection's message budget
+ *
+ * Every frame spends from the connection's overall bucket; some message
+ * types also spend from their own, stricter bucket. Rejected and invalid
+ * messages are strikes, and a connection that runs out of strikes is cut.
+ */
+export class ClientRateLimiter {
+  private readonly messages = new TokenBucket(CONFIG.RATE_LIMIT.MESSAGES);
+  private readonly perType: Map<ClientMessage['type'], TokenBucket> = new Map();
+  private readonly strikes = new TokenBucket(CONFIG.RATE_LIMIT.STRIKES);
+
+  constructor() {
+    for (const [type, settings] of Object.entries(CONFIG.RATE_LIMIT.PER_TYPE)) {
+      this.perType.set(type as ClientMessage['type'], new TokenBucket(settings));
+    }
+  }
+
+  /**
+   * Whether the connection may send another frame at all
+   */
+  allowFrame(): boolean {
+    return this.messages.take();
+  }
+
+  /**
+   * Whether the connection may send another message of this type
+   */
+  allowType(type: ClientMessage['type']): boolean {
+    return this.perType.get(type)?.take() ?? true;
+  }
+
+  /**
+   * Record a strike; false once the connection should be disconnected
+   */
+  strike(): boolean {
+    return this.strikes.take();
+  }
+}
@@ -3,136 +3,489 @@ import {
   type GameClient,
   type ClientMessage,
   type ServerMessage,
+  type LobbyPlayer,
+  type PositionExitState,
+  type OrderLevel,
+  type OrderLevelInput,
+  type OrderLevelView,
+  type FeeView,
+  type SessionTokens,
+  type PlayerPosition,
+  type RoundState,
+  type LobbyStateView,
+  type PositionView,
+  type RoundStateView,
+  type RoundStreamStatus,
+  type ShootReason,
 } from "../types.js";
+import { CONFIG } from "../config.js";
 import { logger } from "../utils/logger.js";
-import { gameStateManager } from "../services/gameStateManager.js";
-import { calculateLiquidationPrice } from "../utils/calculation.js";
+import { GameError } from "../utils/errors.js";
+import { type GameStateManager } from "../services/gameStateManager.js";
+import { tableManager } from "../services/tableManager.js";
+import { ledgerService } from "../services/ledgerService.js";
+import { adminService } from "../services/adminService.js";
+import { authService, type Session } from "../services/authService.js";
+import { parseClientMessage } from "./messageValidator.js";
+import { ClientRateLimiter } from "./rateLimiter.js";
+import {
+  calculateLiquidationPrice,
+  calculatePnLPercentage,
+  getPositionStatus,
+} from "../utils/calculation.js";
+import {
+  type Decimal,
+  ZERO,
+  formatMoney,
+  formatPrice,
+  toDecimal,
+} from "../utils/decimal.js";
 
 export class WebSocketHandler {
   private clients: Map<WebSocket, GameClient> = new Map();
+  private lastStreamAt: Map<string, number> = new Map(); // By table ID
+  private disconnectTimers: Map<string, NodeJS.Timeout> = new Map(); // By player ID
+  private heartbeatInterval: NodeJS.Timeout | null = null;
 
   constructor() {
     this.setupGameStateListeners();
+    this.startHeartbeat();
+  }
+
+  /**
+   * Ping every socket; terminate ones that stop answering
+   * Half-open connections never fire "close" on their own, so without this
+   * they'd linger in clients and swallow everything sent to them.
+   */
+  private startHeartbeat(): void {
+    this.heartbeatInterval = setInterval(() => {
+      const now = Date.now();
+
+      for (const [ws, client] of this.clients) {
+        const connection = client.connection;
+
+        if (connection.pingSentAt !== null) {
+          connection.missedPongs++;
+          if (connection.missedPongs >= CONFIG.WS.MAX_MISSED_PONGS) {
+            logger.warn(
+              `💀 Client ${client.id} missed ${connection.missedPongs} heartbeats - terminating`,
+            );
+            ws.terminate(); // "close" follows and cleans up
+            continue;
+          }
+        }
+
+        if (ws.readyState === WebSocket.OPEN) {
+          connection.pingSentAt = now;
+          ws.ping();
+        }
+      }
+    }, CONFIG.WS.HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Record a heartbeat answer and its round trip
+   */
+  private handlePong(client: GameClient): void {
+    const connection = client.connection;
+    const now = Date.now();
+
+    if (connection.pingSentAt !== null) {
+      const rtt = now - connection.pingSentAt;
+      connection.rttMs = rtt;
+      // Exponential moving average, weighting the newest sample 20%
+      connection.avgRttMs =
+        connection.avgRttMs === null
+          ? rtt
+          : Math.round(connection.avgRttMs * 0.8 + rtt * 0.2);
+    }
+
+    connection.pingSentAt = null;
+    connection.lastPongAt = now;
+    connection.missedPongs = 0;
+  }
+
+  /**
+   * Stop the heartbeat and pending lobby evictions
+   */
+  close(): void {
+    if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
+
+    for (const timer of this.disconnectTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.disconnectTimers.clear();
   }
 
   /**
    * Setup listeners for game state events
    */
   private setupGameStateListeners(): void {
+    for (const table of tableManager.getTables()) {
+      this.setupTableListeners(table);
+    }
+
+    // Private rooms come and go
+    tableManager.on("table:opened", (table: GameStateManager) => {
+      this.setupTableListeners(table);
+    });
+
+    tableManager.on("table:closed", (data) => {
+      this.lastStreamAt.delete(data.tableId);
+      const fallback = tableManager.getDefaultTable().table.id;
+      for (const [ws, client] of this.clients) {
+        if (client.tableId === data.tableId) {
+          client.tableId = fallback;
+          this.sendMessage(ws, { type: "ROOM_CLOSED", tableId: data.tableId });
+        }
+      }
+    });
+
+    // Admin events
+    adminService.on("admin:round_voided", (data) => {
+      for (const playerId of data.playerIds) {
+        this.sendBalanceUpdate(playerId).catch((error) =>
+          logger.error(`Error sending balance to ${playerId}:`, error),
+        );
+      }
+    });
+  }
+
+  /**
+   * Forward one table's events to its clients and players
+   */
+  private setupTableListeners(table: GameStateManager): void {
+    const tableId = table.table.id;
+
     // Lobby events
-    gameStateManager.on("lobby:start", (data) => {
-      this.broadcastToAll({
+    table.on("lobby:start", (data) => {
+      this.broadcastToTable(tableId, {
         type: "LOBBY_UPDATE",
+        tableId,
         secondsRemaining: Math.ceil((data.lobbyEndTime - Date.now()) / 1000),
         playersInLobby: 0,
-        totalWagered: 0,
+        totalWagered: formatMoney(ZERO),
         players: [],
+        serverSeedHash: data.serverSeedHash,
+        directionMode: data.directionMode,
+        longTotal: formatMoney(ZERO),
+        shortTotal: formatMoney(ZERO),
+        longCount: 0,
+        shortCount: 0,
+        rules: table.table.lobbyRules,
+        extensionsUsed: 0,
       });
     });
 
-    gameStateManager.on("lobby:update", (data) => {
-      this.broadcastToAll({
+    table.on("lobby:player_left", (data) => {
+      if (data.reason === "kicked") {
+        this.sendToPlayer(data.playerId, { type: "KICKED", tableId });
+      } else if (data.reason === "insufficient_balance") {
+        this.sendToPlayer(data.playerId, {
+          type: "ERROR",
+          message: "Left out of the round - balance no longer covers the bet",
+          code: "INSUFFICIENT_BALANCE",
+        });
+      } else if (data.reason === "house_limit") {
+        this.sendToPlayer(data.playerId, {
+          type: "ERROR",
+          message:
+            "Left out of the round - house limits would push your bet below the table minimum",
+          code: "ROUND_EXPOSURE_LIMIT",
+        });
+      }
+    });
+
+    table.on("lobby:update", (data) => {
+      this.broadcastToTable(tableId, {
         type: "LOBBY_UPDATE",
+        tableId,
         secondsRemaining: data.secondsRemaining,
         playersInLobby: data.playersInLobby,
-        totalWagered: data.totalWagered,
-        players: data.players,
+        totalWagered: formatMoney(data.totalWagered),
+        players: data.players.map((player: LobbyPlayer) => ({
+          playerId: player.playerId,
+          username: player.username,
+          betAmount: formatMoney(player.betAmount),
+          leverage: player.leverage,
+          balance: formatMoney(player.balance),
+          joinedAt: player.joinedAt,
+          side: player.side,
+        })),
+        serverSeedHash: data.serverSeedHash,
+        directionMode: data.directionMode,
+        longTotal: formatMoney(data.longTotal),
+        shortTotal: formatMoney(data.shortTotal),
+        longCount: data.longCount,
+        shortCount: data.shortCount,
+        rules: data.rules,
+        extensionsUsed: data.extensionsUsed,
       });
     });
 
     // Round events
-    gameStateManager.on("round:start", (data) => {
+    table.on("round:start", (data) => {
       // Send personalized round start to each player
       for (const assignment of data.positions) {
         this.sendToPlayer(assignment.playerId, {
           type: "ROUND_START",
+          tableId,
           roundId: data.roundId,
           pair: data.pair,
-          entryPrice: data.entryPrice,
-          leverage: data.leverage,
+          entryPrice: formatPrice(data.pair, data.entryPrice),
+          leverage: assignment.leverage,
           myPosition: assignment.positionType,
-          myBetAmount: assignment.betAmount,
+          myBetAmount: formatMoney(assignment.betAmount),
+          settlementMode: data.settlementMode,
+          odds: data.odds && {
+            long: data.odds.long?.toFixed(4) ?? null,
+            short: data.odds.short?.toFixed(4) ?? null,
+          },
+          serverSeedHash: data.serverSeedHash,
+          clientSeed: data.clientSeed,
         });
       }
     });
 
-    gameStateManager.on("price:update", (data) => {
+    table.on("price:update", (data) => {
       // Send personalized price updates to each player
       for (const positionData of data.positions) {
-        const round = gameStateManager.getGameState().currentRound;
+        const round = table.getGameState().currentRound;
         if (!round) continue;
 
         const position = round.positions.get(positionData.playerId);
         if (!position) continue;
 
         const liquidationPrice = calculateLiquidationPrice(
+          round.pair,
           position.positionType,
           position.entryPrice,
-          round.leverage,
+          position.leverage,
         );
 
         this.sendToPlayer(positionData.playerId, {
           type: "PRICE_UPDATE",
-          currentPrice: data.currentPrice,
-          pnl: positionData.pnl,
-          pnlPercentage: positionData.pnlPercentage,
-          liquidationPrice,
+          currentPrice: formatPrice(data.pair, data.currentPrice),
+          pnl: formatMoney(positionData.pnl),
+          pnlPercentage: positionData.pnlPercentage.toFixed(4),
+          liquidationPrice: formatPrice(data.pair, liquidationPrice),
+          remainingAmount: formatMoney(positionData.remainingAmount),
         });
       }
     });
 
-    gameStateManager.on("player:liquidated", (data) => {
+    table.on("player:liquidated", (data) => {
       this.sendToPlayer(data.playerId, {
         type: "LIQUIDATED",
-        finalPrice: data.finalPrice,
-        loss: data.loss,
+        finalPrice: formatPrice(data.pair, data.finalPrice),
+        loss: formatMoney(data.loss),
       });
     });
 
-    gameStateManager.on("player:shoot", (data) => {
+    table.on("player:shoot", (data) => {
       this.sendToPlayer(data.playerId, {
         type: "SHOOT_SUCCESS",
-        exitPrice: data.exitPrice,
-        pnl: data.pnl,
-        payout: data.payout,
+        exitPrice: formatPrice(data.pair, data.exitPrice),
+        pnl: formatMoney(data.pnl),
+        payout: formatMoney(data.payout),
+        closedAmount: formatMoney(data.closedAmount),
+        remainingAmount: formatMoney(data.remainingAmount),
+        partial: data.partial,
+        reason: data.reason,
+        fees: this.formatFees(data.fees),
+        deferred: data.deferred,
       });
 
       // Also send updated balance
       this.sendBalanceUpdate(data.playerId);
     });
 
-    gameStateManager.on("round:end", async (data) => {
+    table.on("player:orders_updated", (data) => {
+      this.sendToPlayer(data.playerId, {
+        type: "ORDERS_UPDATED",
+        roundId: data.roundId,
+        takeProfit: this.formatOrderLevel(data.pair, data.orders.takeProfit),
+        stopLoss: this.formatOrderLevel(data.pair, data.orders.stopLoss),
+      });
+    });
+
+    table.on("round:voided", async (data) => {
+      for (const refund of data.refunds) {
+        const balanceData = await tableManager.getPlayerBalance(
+          refund.playerId,
+        );
+
+        this.sendToPlayer(refund.playerId, {
+          type: "ROUND_VOIDED",
+          roundId: data.roundId,
+          reason: data.reason,
+          refund: formatMoney(refund.refund),
+          newBalance: formatMoney(balanceData?.balance ?? ZERO),
+          serverSeed: data.fairness.serverSeed,
+          serverSeedHash: data.fairness.serverSeedHash,
+          clientSeed: data.fairness.clientSeed,
+        });
+      }
+    });
+
+    table.on("round:end", async (data) => {
       // Send personalized round end to each player
       for (const payout of data.payouts) {
         // Get updated balance
-        const balanceData = await gameStateManager.getPlayerBalance(
+        const balanceData = await tableManager.getPlayerBalance(
           payout.playerId,
         );
 
         this.sendToPlayer(payout.playerId, {
           type: "ROUND_END",
-          finalPrice: data.finalPrice,
-          myPnl: payout.pnl,
-          payout: payout.payout,
+          finalPrice: formatPrice(data.pair, data.finalPrice),
+          myPnl: formatMoney(payout.pnl),
+          payout: formatMoney(payout.payout),
           didShoot: payout.didShoot,
           reason: data.reason,
-          newBalance: balanceData?.balance || 0,
+          newBalance: formatMoney(balanceData?.balance ?? ZERO),
+          exits: payout.exits.map((exit: PositionExitState) => ({
+            amount: formatMoney(exit.amount),
+            exitPrice: formatPrice(data.pair, exit.exitPrice),
+            pnl: formatMoney(exit.pnl),
+            payout: formatMoney(exit.payout),
+            rake: formatMoney(exit.rake),
+            holdingFee: formatMoney(exit.holdingFee),
+            exitedAt: exit.exitedAt,
+          })),
+          fees: this.formatFees(payout.fees),
+          settlementMode: data.settlementMode,
+          pool: data.pool && {
+            total: formatMoney(data.pool.total),
+            winningStake: formatMoney(data.pool.winningStake),
+            losingStake: formatMoney(data.pool.losingStake),
+          },
+          serverSeed: data.fairness.serverSeed,
+          serverSeedHash: data.fairness.serverSeedHash,
+          clientSeed: data.fairness.clientSeed,
         });
       }
     });
+
+    // Spectator stream: everyone following the table, signed in or not
+    table.on("round:start", () => {
+      this.streamRound(table, "live");
+    });
+
+    table.on("price:update", () => {
+      const now = Date.now();
+      const last = this.lastStreamAt.get(tableId) ?? 0;
+      if (now - last >= CONFIG.SPECTATOR.STREAM_INTERVAL_MS) {
+        this.streamRound(table, "live");
+      }
+    });
+
+    table.on("player:shoot", (data) => {
+      this.broadcastFeed(table, data.playerId, {
+        event: "shot",
+        price: formatPrice(data.pair, data.exitPrice),
+        pnl: formatMoney(data.pnl),
+        partial: data.partial,
+        reason: data.reason,
+      });
+    });
+
+    table.on("player:liquidated", (data) => {
+      this.broadcastFeed(table, data.playerId, {
+        event: "liquidation",
+        price: formatPrice(data.pair, data.finalPrice),
+        pnl: formatMoney(data.loss.negated()),
+        partial: false,
+        reason: null,
+      });
+    });
+
+    // The round is still current while these fire
+    table.on("round:end", (data) => {
+      this.streamRound(table, "ended", data.finalPrice);
+    });
+
+    table.on("round:voided", () => {
+      this.streamRound(table, "voided");
+    });
+  }
+
+  /**
+   * Broadcast the current round's public stats to the table
+   */
+  private streamRound(
+    table: GameStateManager,
+    status: RoundStreamStatus,
+    price?: Decimal,
+  ): void {
+    const round = table.getGameState().currentRound;
+    const stats = table.getRoundStats();
+    if (!round || !stats) return;
+
+    const tableId = table.table.id;
+    this.lastStreamAt.set(tableId, Date.now());
+
+    this.broadcastToTable(tableId, {
+      type: "ROUND_STREAM",
+      tableId,
+      roundId: round.id,
+      pair: round.pair,
+      entryPrice: formatPrice(round.pair, round.entryPrice),
+      currentPrice: formatPrice(round.pair, price ?? round.currentPrice),
+      status,
+      stats: {
+        playersInRound: stats.playersInRound,
+        openLongs: stats.openLongs,
+        openShorts: stats.openShorts,
+        openLongStake: formatMoney(stats.openLongStake),
+        openShortStake: formatMoney(stats.openShortStake),
+        liquidations: stats.liquidations,
+        shots: stats.shots,
+      },
+    });
+  }
+
+  /**
+   * Broadcast a shot or liquidation without saying whose it was
+   */
+  private broadcastFeed(
+    table: GameStateManager,
+    playerId: string,
+    entry: {
+      event: "shot" | "liquidation";
+      price: string;
+      pnl: string;
+      partial: boolean;
+      reason: ShootReason | null;
+    },
+  ): void {
+    const round = table.getGameState().currentRound;
+    const position = round?.positions.get(playerId);
+    if (!round || !position) return;
+
+    const tableId = table.table.id;
+    this.broadcastToTable(tableId, {
+      type: "ROUND_FEED",
+      tableId,
+      roundId: round.id,
+      side: position.positionType,
+      leverage: position.leverage,
+      ...entry,
+      at: Date.now(),
+    });
   }
 
   /**
    * Send balance update to player
    */
   private async sendBalanceUpdate(playerId: string): Promise<void> {
-    const balanceData = await gameStateManager.getPlayerBalance(playerId);
+    const balanceData = await tableManager.getPlayerBalance(playerId);
 
     if (balanceData) {
       this.sendToPlayer(playerId, {
         type: "BALANCE_UPDATE",
-        balance: balanceData.balance,
-        totalPnl: balanceData.totalPnl,
+        balance: formatMoney(balanceData.balance),
+        totalPnl: formatMoney(balanceData.totalPnl),
         gamesPlayed: balanceData.gamesPlayed,
       });
     }
@@ -148,7 +501,18 @@ export class WebSocketHandler {
       id: clientId,
       ws,
       playerId: null,
+      username: null,
+      sessionExpiresAt: null,
+      tableId: tableManager.getDefaultTable().table.id,
       connectedAt: Date.now(),
+      rateLimiter: new ClientRateLimiter(),
+      connection: {
+        pingSentAt: null,
+        lastPongAt: null,
+        missedPongs: 0,
+        rttMs: null,
+        avgRttMs: null,
+      },
     };
 
     this.clients.set(ws, client);
@@ -162,8 +526,12 @@ export class WebSocketHandler {
     });
 
     // Handle messages
-    ws.on("message", (data: WebSocket.Data) => {
-      this.handleMessage(ws, data, client);
+    ws.on("message", (data: WebSocket.Data, isBinary: boolean) => {
+      this.handleMessage(ws, data, isBinary, client);
+    });
+
+    ws.on("pong", () => {
+      this.handlePong(client);
     });
 
     // Handle disconnect
@@ -182,36 +550,147 @@ export class WebSocketHandler {
   private async handleMessage(
     ws: WebSocket,
     data: WebSocket.Data,
+    isBinary: boolean,
     client: GameClient,
   ): Promise<void> {
+    // A socket being cut for abuse gets nothing more processed
+    if (ws.readyState !== WebSocket.OPEN) return;
+
+    let message: ClientMessage;
+    try {
+      if (!client.rateLimiter.allowFrame()) {
+        throw new GameError("Too many messages - slow down", "RATE_LIMITED");
+      }
+
+      if (isBinary) {
+        throw new GameError("Messages must be JSON text", "INVALID_MESSAGE");
+      }
+
+      message = parseClientMessage(data.toString());
+
+      if (!client.rateLimiter.allowType(message.type)) {
+        throw new GameError(
+          `Too many ${message.type} messages - slow down`,
+          "RATE_LIMITED",
+        );
+      }
+    } catch (error: any) {
+      this.sendError(ws, error.message, error.code);
+      this.recordStrike(ws, client);
+      return;
+    }
+
     try {
-      const message: ClientMessage = JSON.parse(data.toString());
+
+      switch (message.type) {
+        case "AUTH":
+          await this.handleAuth(ws, message, client);
+          return;
+
+        case "REFRESH":
+          await this.handleRefresh(ws, message, client);
+          return;
+
+        case "WALLET_NONCE":
+          this.handleWalletNonce(ws, message);
+          return;
+
+        case "WALLET_AUTH":
+          await this.handleWalletAuth(ws, message, client);
+          return;
+
+        case "LIST_TABLES":
+          this.sendMessage(ws, {
+            type: "TABLES",
+            tables: tableManager
+              .getPublicTables()
+              .map((table) => tableManager.describeTable(table)),
+          });
+          return;
+
+        case "JOIN_TABLE":
+          this.handleJoinTable(ws, message, client);
+          return;
+
+        case "JOIN_ROOM":
+          this.handleJoinRoom(ws, message, client);
+          return;
+
+        case "PING":
+          this.sendMessage(ws, {
+            type: "PONG",
+            serverTime: Date.now(),
+            rttMs: client.connection.rttMs,
+            avgRttMs: client.connection.avgRttMs,
+          });
+          return;
+      }
+
+      // Everything else acts as the player the socket authenticated as
+      const playerId = this.requirePlayer(client, message);
 
       switch (message.type) {
         case "JOIN_LOBBY":
-          await this.handleJoinLobby(ws, message, client);
+          await this.handleJoinLobby(ws, message, client, playerId);
           break;
 
         case "LEAVE_LOBBY":
-          await this.handleLeaveLobby(ws, message, client);
+          await this.handleLeaveLobby(ws, client, playerId);
+          break;
+
+        case "UPDATE_BET":
+          await this.handleUpdateBet(ws, message, client, playerId);
           break;
 
         case "SHOOT":
-          await this.handleShoot(ws, message, client);
+          await this.handleShoot(ws, message, client, playerId);
+          break;
+
+        case "SET_ORDERS":
+          this.handleSetOrders(ws, message, client, playerId);
           break;
 
         case "GET_BALANCE":
-          await this.handleGetBalance(ws, message, client);
+          await this.handleGetBalance(ws, playerId);
           break;
 
-        case "PING":
-          this.sendMessage(ws, { type: "PONG" });
+        case "GET_STATE":
+          this.sendState(ws, client, playerId);
+          break;
+
+        case "RESUME":
+          this.handleResume(ws, client, playerId);
+          break;
+
+        case "GET_LEDGER":
+          await this.handleGetLedger(ws, message, playerId);
+          break;
+
+        case "CREATE_ROOM":
+          this.handleCreateRoom(ws, message, client, playerId);
+          break;
+
+        case "START_ROOM":
+          this.handleStartRoom(ws, client, playerId);
+          break;
+
+        case "KICK_PLAYER":
+          await this.handleKickPlayer(ws, message, client, playerId);
+          break;
+
+        case "LINK_WALLET":
+          await this.handleLinkWallet(ws, message, playerId);
           break;
 
         default:
           this.sendError(ws, "Unknown message type", "UNKNOWN_MESSAGE");
       }
     } catch (error: any) {
+      if (error instanceof GameError) {
+        this.sendError(ws, error.message, error.code);
+        return;
+      }
+
       logger.error("Error handling message:", error);
       this.sendError(
         ws,
@@ -221,6 +700,368 @@ export class WebSocketHandler {
     }
   }
 
+  /**
+   * Count an invalid or rate-limited message against the socket, closing
+   * it once it has used up its strikes
+   */
+  private recordStrike(ws: WebSocket, client: GameClient): void {
+    if (client.rateLimiter.strike()) return;
+
+    logger.warn(
+      `🚫 Disconnecting client ${client.id}${client.playerId ? ` (${client.playerId})` : ""}: too many invalid or rate-limited messages`,
+    );
+    ws.close(1008, "Too many invalid or rate-limited messages");
+  }
+
+  /**
+   * Player the socket acts as; a playerId sent in the message must match
+   */
+  private requirePlayer(client: GameClient, message: ClientMessage): string {
+    if (client.playerId === null || client.sessionExpiresAt === null) {
+      throw new GameError("Authenticate first", "UNAUTHENTICATED");
+    }
+
+    if (client.sessionExpiresAt <= Date.now()) {
+      throw new GameError("Session expired - refresh it", "SESSION_EXPIRED");
+    }
+
+    if (
+      "playerId" in message &&
+      message.playerId !== undefined &&
+      message.playerId !== client.playerId
+    ) {
+      throw new GameError(
+        "playerId does not match your session",
+        "PLAYER_MISMATCH",
+      );
+    }
+
+    return client.playerId;
+  }
+
+  /**
+   * Handle AUTH: resume a session from an access token, or sign up a guest
+   */
+  private async handleAuth(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "AUTH" }>,
+    client: GameClient,
+  ): Promise<void> {
+    try {
+      if (message.token !== undefined) {
+        const session = authService.verifyAccessToken(message.token);
+        this.bindSession(ws, client, session, null);
+      } else if (message.claimToken !== undefined) {
+        if (client.playerId !== null) {
+          throw new GameError("Already signed in", "ALREADY_AUTHENTICATED");
+        }
+
+        const { session, tokens } = await authService.claim(message.claimToken);
+        this.bindSession(ws, client, session, tokens);
+      } else if (message.username !== undefined) {
+        if (client.playerId !== null) {
+          throw new GameError("Already signed in", "ALREADY_AUTHENTICATED");
+        }
+
+        const { session, tokens } = await authService.registerGuest(
+          message.username,
+        );
+        this.bindSession(ws, client, session, tokens);
+      } else {
+        throw new GameError(
+          "Send a token, a claim token or a username",
+          "AUTH_FAILED",
+        );
+      }
+
+      await this.sendBalanceUpdate(client.playerId!);
+    } catch (error: any) {
+      this.sendError(
+        ws,
+        error.message,
+        error instanceof GameError ? error.code : "AUTH_FAILED",
+      );
+    }
+  }
+
+  /**
+   * Handle REFRESH: trade a refresh token for a new token pair
+   */
+  private async handleRefresh(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "REFRESH" }>,
+    client: GameClient,
+  ): Promise<void> {
+    try {
+      const { session, tokens } = await authService.refresh(
+        message.refreshToken,
+      );
+      this.bindSession(ws, client, session, tokens);
+    } catch (error: any) {
+      this.sendError(
+        ws,
+        error.message,
+        error instanceof GameError ? error.code : "REFRESH_FAILED",
+      );
+    }
+  }
+
+  /**
+   * Handle WALLET_NONCE: the message the wallet has to sign
+   */
+  private handleWalletNonce(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "WALLET_NONCE" }>,
+  ): void {
+    try {
+      const challenge = authService.createWalletChallenge(
+        message.chain,
+        message.address,
+      );
+
+      this.sendMessage(ws, {
+        type: "WALLET_CHALLENGE",
+        nonce: challenge.nonce,
+        chain: challenge.chain,
+        address: challenge.address,
+        message: challenge.message,
+        expiresAt: challenge.expiresAt,
+      });
+    } catch (error: any) {
+      this.sendError(
+        ws,
+        error.message,
+        error instanceof GameError ? error.code : "WALLET_NONCE_FAILED",
+      );
+    }
+  }
+
+  /**
+   * Handle WALLET_AUTH: sign in with a signed challenge
+   */
+  private async handleWalletAuth(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "WALLET_AUTH" }>,
+    client: GameClient,
+  ): Promise<void> {
+    try {
+      const { session, tokens } = await authService.loginWithWallet(
+        message.nonce,
+        message.signature,
+        message.username ?? null,
+      );
+      this.bindSession(ws, client, session, tokens);
+
+      await this.sendBalanceUpdate(session.playerId);
+    } catch (error: any) {
+      this.sendError(
+        ws,
+        error.message,
+        error instanceof GameError ? error.code : "WALLET_AUTH_FAILED",
+      );
+    }
+  }
+
+  /**
+   * Handle LINK_WALLET: attach a wallet to the signed-in player
+   */
+  private async handleLinkWallet(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "LINK_WALLET" }>,
+    playerId: string,
+  ): Promise<void> {
+    try {
+      const walletAddress = await authService.linkWallet(
+        playerId,
+        message.nonce,
+        message.signature,
+      );
+
+      this.sendMessage(ws, { type: "WALLET_LINKED", walletAddress });
+    } catch (error: any) {
+      this.sendError(
+        ws,
+        error.message,
+        error instanceof GameError ? error.code : "LINK_WALLET_FAILED",
+      );
+    }
+  }
+
+  /**
+   * Tie the socket to the session's player (a socket never changes player)
+   */
+  private bindSession(
+    ws: WebSocket,
+    client: GameClient,
+    session: Session,
+    tokens: SessionTokens | null,
+  ): void {
+    if (client.playerId !== null && client.playerId !== session.playerId) {
+      throw new GameError(
+        "Connection is signed in as another player",
+        "ALREADY_AUTHENTICATED",
+      );
+    }
+
+    client.playerId = session.playerId;
+    client.username = session.username;
+    client.sessionExpiresAt = session.expiresAt;
+    this.cancelDisconnect(session.playerId);
+
+    logger.info(
+      `Client ${client.id} authenticated as ${session.username} (${session.playerId})`,
+    );
+
+    this.sendMessage(ws, {
+      type: "AUTHENTICATED",
+      playerId: session.playerId,
+      username: session.username,
+      sessionExpiresAt: session.expiresAt,
+      tokens,
+    });
+  }
+
+  /**
+   * Handle JOIN_TABLE: switch which table's events the client follows
+   */
+  private handleJoinTable(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "JOIN_TABLE" }>,
+    client: GameClient,
+  ): void {
+    try {
+      // Private rooms are only reachable by invite code
+      const table = tableManager.getTable(message.tableId);
+      if (!table || table.table.inviteCode !== null) {
+        throw new Error("Table not found");
+      }
+
+      this.switchTable(ws, client, table);
+    } catch (error: any) {
+      this.sendError(ws, error.message, "JOIN_TABLE_FAILED");
+    }
+  }
+
+  /**
+   * Handle CREATE_ROOM: open a private room and move the owner into it
+   */
+  private handleCreateRoom(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "CREATE_ROOM" }>,
+    client: GameClient,
+    playerId: string,
+  ): void {
+    try {
+      this.assertCanSwitchTable(client);
+
+      const room = tableManager.createRoom(playerId, {
+        name: message.name,
+        roundType: message.roundType,
+        lobbyDurationSeconds: message.lobbyDurationSeconds,
+        betAmount: message.betAmount,
+        leverage: message.leverage,
+      });
+
+      client.tableId = room.table.id;
+
+      this.sendMessage(ws, {
+        type: "ROOM_CREATED",
+        table: tableManager.describeTable(room),
+      });
+    } catch (error: any) {
+      this.sendError(ws, error.message, "CREATE_ROOM_FAILED");
+    }
+  }
+
+  /**
+   * Handle JOIN_ROOM
+   */
+  private handleJoinRoom(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "JOIN_ROOM" }>,
+    client: GameClient,
+  ): void {
+    try {
+      const room = tableManager.findRoomByInviteCode(message.inviteCode);
+      if (!room) {
+        throw new Error("Invalid invite code");
+      }
+
+      this.switchTable(ws, client, room);
+    } catch (error: any) {
+      this.sendError(ws, error.message, "JOIN_ROOM_FAILED");
+    }
+  }
+
+  /**
+   * Handle START_ROOM
+   */
+  private handleStartRoom(
+    ws: WebSocket,
+    client: GameClient,
+    playerId: string,
+  ): void {
+    try {
+      tableManager.startRoom(client.tableId, playerId);
+    } catch (error: any) {
+      this.sendError(ws, error.message, "START_ROOM_FAILED");
+    }
+  }
+
+  /**
+   * Handle KICK_PLAYER
+   */
+  private async handleKickPlayer(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "KICK_PLAYER" }>,
+    client: GameClient,
+    playerId: string,
+  ): Promise<void> {
+    try {
+      await tableManager.kickFromRoom(
+        client.tableId,
+        playerId,
+        message.targetPlayerId,
+      );
+    } catch (error: any) {
+      this.sendError(ws, error.message, "KICK_PLAYER_FAILED");
+    }
+  }
+
+  /**
+   * Follow another table's events
+   */
+  private switchTable(
+    ws: WebSocket,
+    client: GameClient,
+    table: GameStateManager,
+  ): void {
+    this.assertCanSwitchTable(client, table);
+
+    client.tableId = table.table.id;
+
+    this.sendMessage(ws, {
+      type: "TABLE_JOINED",
+      table: tableManager.describeTable(table),
+    });
+  }
+
+  /**
+   * A player waiting in a lobby has to leave it before moving elsewhere
+   */
+  private assertCanSwitchTable(
+    client: GameClient,
+    target?: GameStateManager,
+  ): void {
+    const lobbyTable =
+      client.playerId !== null
+        ? tableManager.findLobbyTable(client.playerId)
+        : undefined;
+    if (lobbyTable && lobbyTable !== target) {
+      throw new Error("Leave your current lobby before switching tables");
+    }
+  }
+
   /**
    * Handle JOIN_LOBBY
    */
@@ -228,24 +1069,30 @@ export class WebSocketHandler {
     ws: WebSocket,
     message: Extract<ClientMessage, { type: "JOIN_LOBBY" }>,
     client: GameClient,
+    playerId: string,
   ): Promise<void> {
     try {
-      await gameStateManager.joinLobby(
-        message.playerId,
-        message.username,
-        message.betAmount,
+      await tableManager.joinLobby(
+        this.getClientTable(client),
+        playerId,
+        toDecimal(message.betAmount),
+        message.clientSeed ?? null,
+        message.side ?? null,
+        message.leverage ?? null,
       );
 
-      client.playerId = message.playerId;
-
       // Send balance update
-      await this.sendBalanceUpdate(message.playerId);
+      await this.sendBalanceUpdate(playerId);
 
       logger.info(
-        `Player ${message.username} (${message.playerId}) joined lobby with bet $${message.betAmount}`,
+        `Player ${client.username} (${playerId}) joined lobby with bet $${message.betAmount}`,
       );
     } catch (error: any) {
-      this.sendError(ws, error.message, "JOIN_LOBBY_FAILED");
+      this.sendError(
+        ws,
+        error.message,
+        error instanceof GameError ? error.code : "JOIN_LOBBY_FAILED",
+      );
     }
   }
 
@@ -254,11 +1101,46 @@ export class WebSocketHandler {
    */
   private async handleLeaveLobby(
     ws: WebSocket,
-    message: Extract<ClientMessage, { type: "LEAVE_LOBBY" }>,
     client: GameClient,
+    playerId: string,
   ): Promise<void> {
-    // TODO: Implement leave lobby logic
-    logger.info(`Player ${message.playerId} left lobby`);
+    try {
+      await this.getClientTable(client).leaveLobby(playerId);
+
+      // Bet was never debited, but refresh the client's view anyway
+      await this.sendBalanceUpdate(playerId);
+
+      logger.info(`Player ${playerId} left lobby`);
+    } catch (error: any) {
+      this.sendError(ws, error.message, "LEAVE_LOBBY_FAILED");
+    }
+  }
+
+  /**
+   * Handle UPDATE_BET
+   */
+  private async handleUpdateBet(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "UPDATE_BET" }>,
+    client: GameClient,
+    playerId: string,
+  ): Promise<void> {
+    try {
+      await this.getClientTable(client).updateLobbyBet(
+        playerId,
+        toDecimal(message.betAmount),
+        message.side ?? null,
+        message.leverage ?? null,
+      );
+
+      await this.sendBalanceUpdate(playerId);
+    } catch (error: any) {
+      this.sendError(
+        ws,
+        error.message,
+        error instanceof GameError ? error.code : "UPDATE_BET_FAILED",
+      );
+    }
   }
 
   /**
@@ -268,29 +1150,256 @@ export class WebSocketHandler {
     ws: WebSocket,
     message: Extract<ClientMessage, { type: "SHOOT" }>,
     client: GameClient,
+    playerId: string,
   ): Promise<void> {
     try {
-      await gameStateManager.shoot(message.playerId, message.roundId);
+      const table = this.getRoundTable(client, message.roundId);
+      await table.shoot(playerId, message.roundId, {
+        fraction: message.fraction,
+        amount:
+          message.amount !== undefined ? toDecimal(message.amount) : undefined,
+      });
     } catch (error: any) {
       this.sendError(ws, error.message, "SHOOT_FAILED");
     }
   }
 
+  /**
+   * Handle SET_ORDERS
+   */
+  private handleSetOrders(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "SET_ORDERS" }>,
+    client: GameClient,
+    playerId: string,
+  ): void {
+    try {
+      const table = this.getRoundTable(client, message.roundId);
+      table.setOrders(playerId, message.roundId, {
+        takeProfit: this.parseOrderLevel(message.takeProfit),
+        stopLoss: this.parseOrderLevel(message.stopLoss),
+      });
+    } catch (error: any) {
+      this.sendError(ws, error.message, "SET_ORDERS_FAILED");
+    }
+  }
+
+  /**
+   * Parse an order level off the wire (undefined keeps, null cancels)
+   */
+  private parseOrderLevel(
+    input: OrderLevelInput | null | undefined,
+  ): OrderLevel | null | undefined {
+    if (input === undefined || input === null) {
+      return input;
+    }
+
+    const hasPrice = input.price !== undefined;
+    const hasPnlPercent = input.pnlPercent !== undefined;
+    if (hasPrice === hasPnlPercent) {
+      throw new Error("Order level needs exactly one of price or pnlPercent");
+    }
+
+    return hasPrice
+      ? { kind: "price", price: toDecimal(input.price!) }
+      : { kind: "pnl_percent", pnlPercent: toDecimal(input.pnlPercent!) };
+  }
+
+  /**
+   * Wire format for the fees charged on a position
+   */
+  private formatFees(fees: {
+    entryFee: Decimal;
+    rake: Decimal;
+    holdingFee: Decimal;
+  }): FeeView {
+    return {
+      entryFee: formatMoney(fees.entryFee),
+      rake: formatMoney(fees.rake),
+      holdingFee: formatMoney(fees.holdingFee),
+    };
+  }
+
+  /**
+   * Wire format for an order level
+   */
+  private formatOrderLevel(
+    pair: string,
+    level: OrderLevel | null,
+  ): OrderLevelView | null {
+    if (!level) return null;
+    return level.kind === "price"
+      ? { price: formatPrice(pair, level.price) }
+      : { pnlPercent: level.pnlPercent.toString() };
+  }
+
   /**
    * Handle GET_BALANCE
    */
   private async handleGetBalance(
     ws: WebSocket,
-    message: Extract<ClientMessage, { type: "GET_BALANCE" }>,
-    client: GameClient,
+    playerId: string,
   ): Promise<void> {
     try {
-      await this.sendBalanceUpdate(message.playerId);
+      await this.sendBalanceUpdate(playerId);
     } catch (error: any) {
       this.sendError(ws, error.message, "GET_BALANCE_FAILED");
     }
   }
 
+  /**
+   * Handle RESUME: follow the table where the player has a position (or
+   * waits in the lobby) again, then send the snapshot to rebuild from
+   */
+  private handleResume(
+    ws: WebSocket,
+    client: GameClient,
+    playerId: string,
+  ): void {
+    const table =
+      tableManager.findPositionTable(playerId) ??
+      tableManager.findLobbyTable(playerId);
+
+    if (table && table.table.id !== client.tableId) {
+      client.tableId = table.table.id;
+      this.sendMessage(ws, {
+        type: "TABLE_JOINED",
+        table: tableManager.describeTable(table),
+      });
+    }
+
+    this.sendState(ws, client, playerId);
+  }
+
+  /**
+   * Send the client's table as it stands, with the player's own entry or
+   * position in it
+   */
+  private sendState(
+    ws: WebSocket,
+    client: GameClient,
+    playerId: string,
+  ): void {
+    const table = this.getClientTable(client);
+    const gameState = table.getGameState();
+    const round = gameState.currentRound;
+    const position = round?.positions.get(playerId);
+
+    let lobby: LobbyStateView | null = null;
+    if (gameState.phase === "LOBBY" && gameState.lobbyEndTime !== null) {
+      const entry = table.getLobbyPlayer(playerId);
+      lobby = {
+        secondsRemaining: Math.max(
+          0,
+          Math.ceil((gameState.lobbyEndTime - Date.now()) / 1000),
+        ),
+        lobbyEndTime: gameState.lobbyEndTime,
+        playersInLobby: table.getLobbyPlayerCount(),
+        rules: table.table.lobbyRules,
+        myEntry: entry
+          ? {
+              playerId: entry.playerId,
+              username: entry.username,
+              betAmount: formatMoney(entry.betAmount),
+              leverage: entry.leverage,
+              balance: formatMoney(entry.balance),
+              joinedAt: entry.joinedAt,
+              side: entry.side,
+            }
+          : null,
+      };
+    }
+
+    let roundView: RoundStateView | null = null;
+    if (round) {
+      roundView = {
+        roundId: round.id,
+        pair: round.pair,
+        entryPrice: formatPrice(round.pair, round.entryPrice),
+        currentPrice: formatPrice(round.pair, round.currentPrice),
+        startTime: round.startTime,
+        playersInRound: round.positions.size,
+        settlementMode: round.settlementMode,
+        serverSeedHash: round.fairness.serverSeedHash,
+      };
+    }
+
+    this.sendMessage(ws, {
+      type: "STATE",
+      tableId: table.table.id,
+      phase: gameState.phase,
+      serverTime: Date.now(),
+      lobby,
+      round: roundView,
+      position: round && position ? this.formatPosition(round, position) : null,
+    });
+  }
+
+  /**
+   * Wire format for a player's live position
+   */
+  private formatPosition(
+    round: RoundState,
+    position: PlayerPosition,
+  ): PositionView {
+    const liquidationPrice = calculateLiquidationPrice(
+      round.pair,
+      position.positionType,
+      position.entryPrice,
+      position.leverage,
+    );
+
+    return {
+      roundId: round.id,
+      side: position.positionType,
+      betAmount: formatMoney(position.betAmount),
+      remainingAmount: formatMoney(position.remainingAmount),
+      leverage: position.leverage,
+      entryPrice: formatPrice(round.pair, position.entryPrice),
+      currentPrice: formatPrice(round.pair, round.currentPrice),
+      pnl: formatMoney(position.currentPnl),
+      pnlPercentage: calculatePnLPercentage(
+        position.currentPnl,
+        position.betAmount,
+      ).toFixed(4),
+      realizedPnl: formatMoney(position.realizedPnl),
+      liquidationPrice: formatPrice(round.pair, liquidationPrice),
+      status: getPositionStatus(position),
+      didShoot: position.didShoot,
+      takeProfit: this.formatOrderLevel(round.pair, position.orders.takeProfit),
+      stopLoss: this.formatOrderLevel(round.pair, position.orders.stopLoss),
+      fees: this.formatFees({
+        entryFee: position.entryFee,
+        rake: position.rakeFees,
+        holdingFee: position.holdingFees,
+      }),
+    };
+  }
+
+  /**
+   * Handle GET_LEDGER
+   */
+  private async handleGetLedger(
+    ws: WebSocket,
+    message: Extract<ClientMessage, { type: "GET_LEDGER" }>,
+    playerId: string,
+  ): Promise<void> {
+    try {
+      const page = await ledgerService.getEntries(playerId, {
+        cursor: message.cursor,
+        limit: message.limit,
+      });
+
+      this.sendMessage(ws, {
+        type: "LEDGER",
+        entries: page.entries,
+        nextCursor: page.nextCursor,
+      });
+    } catch (error: any) {
+      this.sendError(ws, error.message, "GET_LEDGER_FAILED");
+    }
+  }
+
   /**
    * Handle client disconnect
    */
@@ -299,6 +1408,66 @@ export class WebSocketHandler {
     logger.info(
       `Client ${client.id} disconnected (total: ${this.clients.size})`,
     );
+
+    // Evict the player from the lobby if their last socket stays gone
+    const playerId = client.playerId;
+    if (
+      playerId &&
+      tableManager.findLobbyTable(playerId) &&
+      !this.isPlayerConnected(playerId)
+    ) {
+      this.scheduleDisconnect(playerId);
+    }
+  }
+
+  /**
+   * Give a dropped player the grace period to reconnect before leaving
+   * their lobby
+   */
+  private scheduleDisconnect(playerId: string): void {
+    this.cancelDisconnect(playerId);
+
+    logger.info(
+      `⏳ Player ${playerId} dropped - ${CONFIG.WS.DISCONNECT_GRACE_SECONDS}s to reconnect`,
+    );
+
+    const timer = setTimeout(() => {
+      this.disconnectTimers.delete(playerId);
+      if (this.isPlayerConnected(playerId)) return;
+
+      // The lobby may have turned into a round meanwhile
+      tableManager
+        .findLobbyTable(playerId)
+        ?.leaveLobby(playerId, "disconnected")
+        .catch((error) =>
+          logger.error(`Error evicting player ${playerId} from lobby:`, error),
+        );
+    }, CONFIG.WS.DISCONNECT_GRACE_SECONDS * 1000);
+
+    this.disconnectTimers.set(playerId, timer);
+  }
+
+  /**
+   * Keep a reconnected player in their lobby
+   */
+  private cancelDisconnect(playerId: string): void {
+    const timer = this.disconnectTimers.get(playerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.disconnectTimers.delete(playerId);
+    }
+  }
+
+  /**
+   * Check if player has at least one open socket
+   */
+  private isPlayerConnected(playerId: string): boolean {
+    for (const client of this.clients.values()) {
+      if (client.playerId === playerId) {
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
@@ -311,14 +1480,34 @@ export class WebSocketHandler {
   }
 
   /**
-   * Send message to all clients
+   * Send message to every client following a table
    */
-  private broadcastToAll(message: ServerMessage): void {
-    for (const [ws] of this.clients) {
-      this.sendMessage(ws, message);
+  private broadcastToTable(tableId: string, message: ServerMessage): void {
+    for (const [ws, client] of this.clients) {
+      if (client.tableId === tableId) {
+        this.sendMessage(ws, message);
+      }
     }
   }
 
+  /**
+   * Table the client is following
+   */
+  private getClientTable(client: GameClient): GameStateManager {
+    return (
+      tableManager.getTable(client.tableId) ?? tableManager.getDefaultTable()
+    );
+  }
+
+  /**
+   * Table running a round, so shoots still land after switching tables
+   */
+  private getRoundTable(client: GameClient, roundId: string): GameStateManager {
+    return (
+      tableManager.findTableByRound(roundId) ?? this.getClientTable(client)
+    );
+  }
+
   /**
    * Send message to specific player
    */
@@ -1,12 +1,14 @@
 import { Server as HTTPServer } from 'http';
 import { WebSocketServer, WebSocket } from 'ws';
+import { CONFIG } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { WebSocketHandler } from './wsHandler.js';
 
 export function createWebSocketServer(httpServer: HTTPServer): WebSocketServer {
   const wss = new WebSocketServer({ 
     server: httpServer,
-    path: '/game'
+    path: '/game',
+    maxPayload: CONFIG.WS.MAX_PAYLOAD_BYTES, // ws closes the socket (1009) on larger frames
   });
 
   const handler = new WebSocketHandler();
@@ -15,6 +17,10 @@ export function createWebSocketServer(httpServer: HTTPServer): WebSocketServer {
     handler.handleConnection(ws); 
   });
 
+  wss.on('close', () => {
+    handler.close();
+  });
+
   wss.on('error', (error: any) => {
     logger.error('WebSocket server error:', error);
   });
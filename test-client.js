@@ -12,7 +12,9 @@ import WebSocket from 'ws';
 
 const username = process.argv[2] || 'TestPlayer';
 const betAmount = parseFloat(process.argv[3] || '10');
-const playerId = `player_${username.toLowerCase()}_${Date.now()}`;
+// Guest usernames are first come, first served
+const guestName = `${username}_${Date.now().toString(36)}`;
+let authenticated = false;
 
 console.log(`\n🎮 Connecting to game server as ${username}...`);
 console.log(`💰 Bet amount: $${betAmount}\n`);
@@ -29,34 +31,48 @@ ws.on('message', (data) => {
   switch (message.type) {
     case 'CONNECTED':
       console.log(`🔌 Connected! Client ID: ${message.clientId}`);
-      console.log(`📊 Requesting balance...\n`);
+      console.log(`🔑 Signing in as ${guestName}...\n`);
       
-      // Get balance first
       ws.send(JSON.stringify({
-        type: 'GET_BALANCE',
-        playerId: playerId
+        type: 'AUTH',
+        username: guestName
       }));
       break;
 
+    case 'AUTHENTICATED':
+      authenticated = true;
+      console.log(`🔑 Signed in as ${message.username} (${message.playerId})`);
+      console.log(`⌛ Session expires ${new Date(message.sessionExpiresAt).toLocaleTimeString()}\n`);
+
+      // Pick up a position left open by an earlier connection
+      ws.send(JSON.stringify({ type: 'RESUME' }));
+      break;
+
+    case 'STATE':
+      console.log(`🧭 Table ${message.tableId}: ${message.phase}`);
+      if (message.position) {
+        const p = message.position;
+        console.log(`📍 Open ${p.side} ${p.leverage}X on ${message.round.pair}: P&L $${Number(p.pnl).toFixed(2)} (${p.status})\n`);
+      }
+      break;
+
     case 'BALANCE_UPDATE':
-      console.log(`💰 Balance: $${message.balance.toFixed(2)}`);
-      console.log(`📈 Total P&L: $${message.totalPnl.toFixed(2)}`);
+      console.log(`💰 Balance: $${Number(message.balance).toFixed(2)}`);
+      console.log(`📈 Total P&L: $${Number(message.totalPnl).toFixed(2)}`);
       console.log(`🎯 Games Played: ${message.gamesPlayed}\n`);
       break;
 
     case 'LOBBY_UPDATE':
       console.log(`⏰ LOBBY: ${message.secondsRemaining}s remaining`);
-      console.log(`👥 Players: ${message.playersInLobby}`);
-      console.log(`💵 Total Wagered: $${message.totalWagered.toFixed(2)}`);
+      console.log(`👥 Players: ${message.playersInLobby} (min ${message.rules.minPlayers}, max ${message.rules.maxPlayers})`);
+      console.log(`💵 Total Wagered: $${Number(message.totalWagered).toFixed(2)}`);
       
       // Join lobby when there's time left
-      if (message.secondsRemaining > 5 && message.playersInLobby === 0) {
+      if (authenticated && message.secondsRemaining > 5 && message.playersInLobby === 0) {
         console.log(`\n🎲 Joining lobby with bet: $${betAmount}...\n`);
         
         ws.send(JSON.stringify({
           type: 'JOIN_LOBBY',
-          playerId: playerId,
-          username: username,
           betAmount: betAmount
         }));
       }
@@ -66,25 +82,27 @@ ws.on('message', (data) => {
       console.log(`\n🚀 ROUND STARTED!`);
       console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
       console.log(`📊 Pair: ${message.pair}`);
-      console.log(`💵 Entry Price: $${message.entryPrice.toFixed(2)}`);
+      console.log(`💵 Entry Price: $${message.entryPrice}`);
       console.log(`⚡ Leverage: ${message.leverage}X`);
       console.log(`📍 My Position: ${message.myPosition}`);
-      console.log(`💰 My Bet: $${message.myBetAmount.toFixed(2)}`);
+      console.log(`💰 My Bet: $${Number(message.myBetAmount).toFixed(2)}`);
+      if (message.odds) {
+        console.log(`🎰 Pool odds: LONG ${message.odds.long ?? '-'}x / SHORT ${message.odds.short ?? '-'}x`);
+      }
       console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
       break;
 
     case 'PRICE_UPDATE':
-      const pnlSymbol = message.pnl >= 0 ? '📈' : '📉';
-      const pnlColor = message.pnl >= 0 ? '+' : '';
+      const pnlSymbol = Number(message.pnl) >= 0 ? '📈' : '📉';
+      const pnlColor = Number(message.pnl) >= 0 ? '+' : '';
       
-      console.log(`${pnlSymbol} Price: $${message.currentPrice.toFixed(2)} | P&L: ${pnlColor}$${message.pnl.toFixed(2)} (${pnlColor}${message.pnlPercentage.toFixed(2)}%)`);
+      console.log(`${pnlSymbol} Price: $${message.currentPrice} | P&L: ${pnlColor}$${Number(message.pnl).toFixed(2)} (${pnlColor}${Number(message.pnlPercentage).toFixed(2)}%)`);
       
       // Auto-shoot if profit > $5 (optional)
       // if (message.pnl > 5) {
-      //   console.log(`\n💥 SHOOTING! Taking profit at $${message.pnl.toFixed(2)}\n`);
+      //   console.log(`\n💥 SHOOTING! Taking profit at $${Number(message.pnl).toFixed(2)}\n`);
       //   ws.send(JSON.stringify({
       //     type: 'SHOOT',
-      //     playerId: playerId,
       //     roundId: message.roundId
       //   }));
       // }
@@ -92,27 +110,51 @@ ws.on('message', (data) => {
 
     case 'LIQUIDATED':
       console.log(`\n❌ LIQUIDATED!`);
-      console.log(`💔 Lost: $${message.loss.toFixed(2)}\n`);
+      console.log(`💔 Lost: $${Number(message.loss).toFixed(2)}\n`);
       break;
 
     case 'SHOOT_SUCCESS':
       console.log(`\n💥 SHOT SUCCESSFUL!`);
       console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-      console.log(`📍 Exit Price: $${message.exitPrice.toFixed(2)}`);
-      console.log(`💰 P&L: $${message.pnl.toFixed(2)}`);
-      console.log(`💵 Payout: $${message.payout.toFixed(2)}`);
+      console.log(`📍 Exit Price: $${message.exitPrice}`);
+      console.log(`💰 P&L: $${Number(message.pnl).toFixed(2)}`);
+      console.log(`💵 Payout: $${Number(message.payout).toFixed(2)}`);
+      if (message.partial) {
+        console.log(`✂️  Closed $${Number(message.closedAmount).toFixed(2)}, $${Number(message.remainingAmount).toFixed(2)} still open`);
+      }
+      console.log(`🏦 Fees: rake $${Number(message.fees.rake).toFixed(2)}, holding $${Number(message.fees.holdingFee).toFixed(2)}`);
       console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
       break;
 
+    case 'ROUND_STREAM':
+      // Live updates repeat every second; only show how the round finished
+      if (message.status !== 'live') {
+        const { stats } = message;
+        console.log(`👀 Round ${message.status}: ${stats.playersInRound} players, ${stats.shots} shot, ${stats.liquidations} liquidated`);
+      }
+      break;
+
+    case 'ROUND_FEED':
+      console.log(`👀 A ${message.leverage}X ${message.side} ${message.event === 'shot' ? 'shot' : 'was liquidated'} at $${message.price} (P&L $${Number(message.pnl).toFixed(2)})`);
+      break;
+
     case 'ROUND_END':
       console.log(`\n🏁 ROUND ENDED!`);
       console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
-      console.log(`📍 Final Price: $${message.finalPrice.toFixed(2)}`);
-      console.log(`💰 My P&L: $${message.myPnl.toFixed(2)}`);
-      console.log(`💵 Payout: $${message.payout.toFixed(2)}`);
+      console.log(`📍 Final Price: $${message.finalPrice}`);
+      console.log(`💰 My P&L: $${Number(message.myPnl).toFixed(2)}`);
+      console.log(`💵 Payout: $${Number(message.payout).toFixed(2)}`);
       console.log(`🎯 Did Shoot: ${message.didShoot ? 'Yes' : 'No'}`);
       console.log(`📊 Reason: ${message.reason}`);
-      console.log(`💵 New Balance: $${message.newBalance.toFixed(2)}`);
+      console.log(`💵 New Balance: $${Number(message.newBalance).toFixed(2)}`);
+      console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
+      break;
+
+    case 'ROUND_VOIDED':
+      console.log(`\n🚫 ROUND VOIDED: ${message.reason}`);
+      console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+      console.log(`↩️  Refund: $${Number(message.refund).toFixed(2)}`);
+      console.log(`💵 New Balance: $${Number(message.newBalance).toFixed(2)}`);
       console.log(`━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`);
       break;
 
@@ -121,7 +163,10 @@ ws.on('message', (data) => {
       break;
 
     case 'PONG':
-      // Heartbeat response
+      // Heartbeat response, with the server's view of our latency
+      if (message.avgRttMs !== null) {
+        console.log(`📶 Latency: ${message.rttMs}ms (avg ${message.avgRttMs}ms)`);
+      }
       break;
 
     default: